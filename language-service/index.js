@@ -0,0 +1,6 @@
+"use strict";
+/**
+ * Entry point for the ts-lombok TypeScript language service plugin.
+ * tsserver resolves plugins by path, so this forwards to the compiled plugin.
+ */
+module.exports = require('../dist/language-service/plugin').default;
@@ -2,53 +2,191 @@
  * Type declarations for ts-lombok marker decorators.
  */
 
+/** Options for the @ToString decorator. */
+export interface ToStringOptions {
+  /** Field names to leave out of the generated toString() */
+  exclude?: string[];
+  /** Only render fields marked @ToString.Include */
+  onlyExplicitlyIncluded?: boolean;
+  /** Start with the superclass's toString(), as `super=...` */
+  callSuper?: boolean;
+  /** Layout: 'lombok' gives User(id=1), 'json' gives {"id":1}, 'multiline' one field per line (default: 'lombok') */
+  format?: 'lombok' | 'json' | 'multiline';
+  /** Render strings quoted and escaped, e.g. name="a, b" (always on for 'json') */
+  quoteStrings?: boolean;
+  /** Label values with field names (default: true; cannot be false for 'json') */
+  includeFieldNames?: boolean;
+}
+
+/** Options for the @Equals decorator. */
+export interface EqualsOptions {
+  /** Field names to leave out of the generated equals() and hashCode() (class only) */
+  exclude?: string[];
+  /** Only compare fields marked @Equals.Include (class only) */
+  onlyExplicitlyIncluded?: boolean;
+  /** Compare arrays, Maps, Sets, Dates and nested objects structurally instead of with === (default: true) */
+  deep?: boolean;
+  /** Also require the superclass's equals() and include its hashCode() (class only) */
+  callSuper?: boolean;
+}
+
+/** Access level of generated methods; 'none' suppresses generation. */
+export type AccessLevel = 'public' | 'protected' | 'private' | 'none';
+
+/** Options for the @Getter, @Setter and @With decorators. */
+export interface AccessorOptions {
+  /** Access modifier of the generated methods (default: 'public') */
+  access?: AccessLevel;
+}
+
+/** Options for the @Getter and @Setter decorators. */
+export interface GetterSetterOptions extends AccessorOptions {
+  /** Emit `get name()` / `set name(value)` accessors over a `_name` backing field */
+  native?: boolean;
+}
+
+/** Options for the @Getter decorator. */
+export interface GetterOptions extends GetterSetterOptions {
+  /** Compute the field initializer on first access and cache it (properties only) */
+  lazy?: boolean;
+}
+
+/** How a generated constructor takes its arguments. */
+export type ConstructorStyle = 'positional' | 'object';
+
+/** Options for the @NoArgsConstructor decorator. */
+export interface StaticConstructorOptions {
+  /** Make the constructor private and create instances through a static factory of this name, e.g. 'of' */
+  staticName?: string;
+}
+
+/** Options for decorators that generate a constructor. */
+export interface ConstructorOptions extends StaticConstructorOptions {
+  /** 'object' takes a single `props` object instead of one parameter per field (default: 'positional') */
+  style?: ConstructorStyle;
+}
+
+/** Options for the @Data decorator. */
+export interface DataOptions extends ConstructorOptions {
+  /** Emit native get/set accessors instead of getX()/setX() methods */
+  native?: boolean;
+  /** Fold the superclass's toString(), equals() and hashCode() into the generated ones */
+  callSuper?: boolean;
+}
+
+/** Options for the @Accessors decorator. */
+export interface AccessorsOptions {
+  /** Name accessors after the field: name() and name(value) (default: false) */
+  fluent?: boolean;
+  /** Setters return this (default: true when fluent, otherwise false) */
+  chain?: boolean;
+  /** Field name prefixes stripped when naming accessors, e.g. ['_', 'm_'] */
+  prefix?: string[];
+  /** Name boolean getters isX() instead of getX() (default: true) */
+  isPrefix?: boolean;
+}
+
+/** Options for the @Sensitive decorator. */
+export interface SensitiveOptions {
+  /** Text rendered instead of the value (default: '****') */
+  mask?: string;
+  /** Number of trailing characters left visible after the mask, e.g. 4 for card numbers */
+  showLast?: number;
+}
+
+/** Class decorator returned when a decorator is called with options. */
+export type ClassDecoratorWithOptions = <T extends { new (...args: any[]): {} }>(target: T) => T;
+
+/** Class or property decorator returned when a decorator is called with options. */
+export interface MemberDecoratorWithOptions {
+  <T extends { new (...args: any[]): {} }>(target: T): T;
+  (target: any, propertyKey: string): void;
+}
+
 /** @Record decorator - Creates an immutable data carrier class. */
 export declare function Record<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function Record(options: ConstructorOptions): ClassDecoratorWithOptions;
 
 /** @Value decorator - Alias for @Record. */
 export declare function Value<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function Value(options: ConstructorOptions): ClassDecoratorWithOptions;
 
 /** @Equals decorator - Generates value-based equality methods. */
 export declare function Equals<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function Equals(options: EqualsOptions): MemberDecoratorWithOptions;
+export declare namespace Equals {
+  /** Leaves the field out of equals() and hashCode(). */
+  function Exclude(target: any, propertyKey: string): void;
+  /** Compares the field when the class uses `onlyExplicitlyIncluded`. */
+  function Include(target: any, propertyKey: string): void;
+}
 
 /** @With decorator - Generates withX() methods for each field. */
 export declare function With<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function With(target: any, propertyKey: string): void;
+export declare function With(options: AccessorOptions): MemberDecoratorWithOptions;
 
 /** @Getter decorator - Generates getter methods. */
 export declare function Getter<T extends { new (...args: any[]): {} }>(target: T): T;
 export declare function Getter(target: any, propertyKey: string): void;
+export declare function Getter(options: GetterOptions): MemberDecoratorWithOptions;
 
 /** @Setter decorator - Generates setter methods. */
 export declare function Setter<T extends { new (...args: any[]): {} }>(target: T): T;
 export declare function Setter(target: any, propertyKey: string): void;
+export declare function Setter(options: GetterSetterOptions): MemberDecoratorWithOptions;
 
 /** @ToString decorator - Generates toString() method. */
 export declare function ToString<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function ToString(options: ToStringOptions): ClassDecoratorWithOptions;
+export declare namespace ToString {
+  /** Leaves the field out of toString(). */
+  function Exclude(target: any, propertyKey: string): void;
+  /** Renders the field when the class uses `onlyExplicitlyIncluded`. */
+  function Include(target: any, propertyKey: string): void;
+}
+
+/** @Inspect decorator - Generates util.inspect.custom and Symbol.toStringTag. */
+export declare function Inspect<T extends { new (...args: any[]): {} }>(target: T): T;
 
 /** @Data decorator - Combines @Getter @Setter @ToString @Equals @AllArgsConstructor. */
 export declare function Data<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function Data(options: DataOptions): ClassDecoratorWithOptions;
 
 /** @Builder decorator - Implements the builder pattern. */
 export declare function Builder<T extends { new (...args: any[]): {} }>(target: T): T;
 
 /** @NoArgsConstructor decorator - Generates empty constructor. */
 export declare function NoArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function NoArgsConstructor(options: StaticConstructorOptions): ClassDecoratorWithOptions;
 
 /** @AllArgsConstructor decorator - Generates constructor with all fields. */
 export declare function AllArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function AllArgsConstructor(options: ConstructorOptions): ClassDecoratorWithOptions;
 
 /** @RequiredArgsConstructor decorator - Generates constructor with required fields. */
 export declare function RequiredArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export declare function RequiredArgsConstructor(options: ConstructorOptions): ClassDecoratorWithOptions;
 
 /** @NonNull decorator - Validates field is not null/undefined. */
 export declare function NonNull(target: any, propertyKey: string): void;
 
+/** @Sensitive decorator - Masks a field in generated toString(). */
+export declare function Sensitive(target: any, propertyKey: string): void;
+export declare function Sensitive(options: SensitiveOptions): (target: any, propertyKey: string) => void;
+
+/** @Order decorator - Pins a field's position in constructors, withX() and toString(). */
+export declare function Order(position: number): (target: any, propertyKey: string) => void;
+
 /** @Log decorator - Generates a logger field. */
 export declare function Log<T extends { new (...args: any[]): {} }>(target: T): T;
 
 /** @Singleton decorator - Ensures only one instance exists. */
 export declare function Singleton<T extends { new (...args: any[]): {} }>(target: T): T;
 
+/** @Accessors decorator - Configures naming and typing of generated accessors. */
+export declare function Accessors(options: AccessorsOptions): MemberDecoratorWithOptions;
+
 /** @Memoize decorator - Caches method results. */
 export declare function Memoize(target: any, propertyKey: string, descriptor: PropertyDescriptor): PropertyDescriptor;
 
@@ -13,6 +13,7 @@ exports.With = With;
 exports.Getter = Getter;
 exports.Setter = Setter;
 exports.ToString = ToString;
+exports.Inspect = Inspect;
 exports.Data = Data;
 exports.Builder = Builder;
 exports.NoArgsConstructor = NoArgsConstructor;
@@ -20,28 +21,52 @@ exports.AllArgsConstructor = AllArgsConstructor;
 exports.RequiredArgsConstructor = RequiredArgsConstructor;
 exports.Log = Log;
 exports.Singleton = Singleton;
+exports.Accessors = Accessors;
 
 // Property decorators
 exports.NonNull = NonNull;
+exports.Order = Order;
+exports.Sensitive = Sensitive;
 
 // Method decorators
 exports.Memoize = Memoize;
 exports.Autobind = Autobind;
 
-function Record(target) { return target; }
-function Value(target) { return target; }
-function Equals(target) { return target; }
-function With(target) { return target; }
-function Getter(target, propertyKey) { return propertyKey ? undefined : target; }
-function Setter(target, propertyKey) { return propertyKey ? undefined : target; }
-function ToString(target) { return target; }
-function Data(target) { return target; }
+// Decorators that take options return a no-op decorator when called with them
+function classMarker(targetOrOptions) {
+  return typeof targetOrOptions === 'function' ? targetOrOptions : function (target) { return target; };
+}
+
+// Decorators usable on classes and properties behave the same way
+function memberMarker(targetOrOptions, propertyKey) {
+  if (propertyKey !== undefined) { return undefined; }
+  return typeof targetOrOptions === 'function'
+    ? targetOrOptions
+    : function (target, key) { return key !== undefined ? undefined : target; };
+}
+
+function Record(targetOrOptions) { return classMarker(targetOrOptions); }
+function Value(targetOrOptions) { return classMarker(targetOrOptions); }
+function Equals(targetOrOptions, propertyKey) { return memberMarker(targetOrOptions, propertyKey); }
+Equals.Exclude = function (target, propertyKey) { };
+Equals.Include = function (target, propertyKey) { };
+function With(targetOrOptions, propertyKey) { return memberMarker(targetOrOptions, propertyKey); }
+function Getter(targetOrOptions, propertyKey) { return memberMarker(targetOrOptions, propertyKey); }
+function Setter(targetOrOptions, propertyKey) { return memberMarker(targetOrOptions, propertyKey); }
+function ToString(targetOrOptions) { return classMarker(targetOrOptions); }
+ToString.Exclude = function (target, propertyKey) { };
+ToString.Include = function (target, propertyKey) { };
+function Inspect(target) { return target; }
+function Data(targetOrOptions) { return classMarker(targetOrOptions); }
 function Builder(target) { return target; }
-function NoArgsConstructor(target) { return target; }
-function AllArgsConstructor(target) { return target; }
-function RequiredArgsConstructor(target) { return target; }
+function NoArgsConstructor(targetOrOptions) { return classMarker(targetOrOptions); }
+function AllArgsConstructor(targetOrOptions) { return classMarker(targetOrOptions); }
+function RequiredArgsConstructor(targetOrOptions) { return classMarker(targetOrOptions); }
 function NonNull(target, propertyKey) { }
+function Order(position) { return function (target, propertyKey) { }; }
+function Sensitive(targetOrOptions, propertyKey) { return propertyKey !== undefined ? undefined : function (target, key) { }; }
 function Log(target) { return target; }
 function Singleton(target) { return target; }
+function Accessors(options) { return memberMarker(options); }
 function Memoize(target, propertyKey, descriptor) { return descriptor; }
 function Autobind(target, propertyKey, descriptor) { return descriptor; }
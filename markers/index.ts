@@ -4,6 +4,158 @@
  * The actual transformation happens at compile time via ts-patch.
  */
 
+/**
+ * Options for the @ToString decorator.
+ */
+export interface ToStringOptions {
+  /** Field names to leave out of the generated toString() */
+  exclude?: string[];
+  /** Only render fields marked @ToString.Include */
+  onlyExplicitlyIncluded?: boolean;
+  /** Start with the superclass's toString(), as `super=...` */
+  callSuper?: boolean;
+  /** Layout: 'lombok' gives User(id=1), 'json' gives {"id":1}, 'multiline' one field per line (default: 'lombok') */
+  format?: 'lombok' | 'json' | 'multiline';
+  /** Render strings quoted and escaped, e.g. name="a, b" (always on for 'json') */
+  quoteStrings?: boolean;
+  /** Label values with field names (default: true; cannot be false for 'json') */
+  includeFieldNames?: boolean;
+}
+
+/**
+ * Options for the @Equals decorator.
+ */
+export interface EqualsOptions {
+  /** Field names to leave out of the generated equals() and hashCode() (class only) */
+  exclude?: string[];
+  /** Only compare fields marked @Equals.Include (class only) */
+  onlyExplicitlyIncluded?: boolean;
+  /** Compare arrays, Maps, Sets, Dates and nested objects structurally instead of with === (default: true) */
+  deep?: boolean;
+  /** Also require the superclass's equals() and include its hashCode() (class only) */
+  callSuper?: boolean;
+}
+
+/**
+ * Access level of generated methods; 'none' suppresses generation.
+ */
+export type AccessLevel = 'public' | 'protected' | 'private' | 'none';
+
+/**
+ * Options for the @Getter, @Setter and @With decorators.
+ */
+export interface AccessorOptions {
+  /** Access modifier of the generated methods (default: 'public') */
+  access?: AccessLevel;
+}
+
+/**
+ * Options for the @Getter and @Setter decorators.
+ */
+export interface GetterSetterOptions extends AccessorOptions {
+  /** Emit `get name()` / `set name(value)` accessors over a `_name` backing field */
+  native?: boolean;
+}
+
+/**
+ * Options for the @Getter decorator.
+ */
+export interface GetterOptions extends GetterSetterOptions {
+  /** Compute the field initializer on first access and cache it (properties only) */
+  lazy?: boolean;
+}
+
+/**
+ * How a generated constructor takes its arguments.
+ */
+export type ConstructorStyle = 'positional' | 'object';
+
+/**
+ * Options for the @NoArgsConstructor decorator.
+ */
+export interface StaticConstructorOptions {
+  /** Make the constructor private and create instances through a static factory of this name, e.g. 'of' */
+  staticName?: string;
+}
+
+/**
+ * Options for decorators that generate a constructor.
+ */
+export interface ConstructorOptions extends StaticConstructorOptions {
+  /** 'object' takes a single `props` object instead of one parameter per field (default: 'positional') */
+  style?: ConstructorStyle;
+}
+
+/**
+ * Options for the @Data decorator.
+ */
+export interface DataOptions extends ConstructorOptions {
+  /** Emit native get/set accessors instead of getX()/setX() methods */
+  native?: boolean;
+  /** Fold the superclass's toString(), equals() and hashCode() into the generated ones */
+  callSuper?: boolean;
+}
+
+/**
+ * Options for the @Accessors decorator.
+ */
+export interface AccessorsOptions {
+  /** Name accessors after the field: name() and name(value) (default: false) */
+  fluent?: boolean;
+  /** Setters return this (default: true when fluent, otherwise false) */
+  chain?: boolean;
+  /** Field name prefixes stripped when naming accessors, e.g. ['_', 'm_'] */
+  prefix?: string[];
+  /** Name boolean getters isX() instead of getX() (default: true) */
+  isPrefix?: boolean;
+}
+
+/**
+ * Options for the @Sensitive decorator.
+ */
+export interface SensitiveOptions {
+  /** Text rendered instead of the value (default: '****') */
+  mask?: string;
+  /** Number of trailing characters left visible after the mask, e.g. 4 for card numbers */
+  showLast?: number;
+}
+
+/**
+ * Class decorator returned when a decorator is called with options.
+ */
+export type ClassDecoratorWithOptions = <T extends { new (...args: any[]): {} }>(target: T) => T;
+
+/**
+ * Class or property decorator returned when a decorator is called with options.
+ */
+export interface MemberDecoratorWithOptions {
+  <T extends { new (...args: any[]): {} }>(target: T): T;
+  (target: any, propertyKey: string): void;
+}
+
+/**
+ * Shared implementation for class decorators that optionally take options.
+ * Options are read at compile time; at runtime the decorator is a no-op.
+ */
+function classMarker(targetOrOptions: any): any {
+  return typeof targetOrOptions === 'function'
+    ? targetOrOptions
+    : (target: any) => target;
+}
+
+/**
+ * Shared implementation for decorators usable on classes and properties
+ * that optionally take options.
+ */
+function memberMarker(targetOrOptions: any, propertyKey?: string): any {
+  if (propertyKey !== undefined) {
+    return undefined;
+  }
+  return typeof targetOrOptions === 'function'
+    ? targetOrOptions
+    : (target: any, key?: string) => (key !== undefined ? undefined : target);
+}
+
 /**
  * @Record decorator - Creates an immutable data carrier class.
  *
@@ -23,10 +175,20 @@
  *
  * const user = new User(1, 'John');
  * // user.id = 2; // Error: Cannot assign to readonly property
+ *
+ * @Record({ style: 'object' })
+ * class Point {
+ *   x: number;
+ *   y: number;
+ * }
+ *
+ * const point = new Point({ x: 1, y: 2 });
  * ```
  */
-export function Record<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function Record<T extends { new (...args: any[]): {} }>(target: T): T;
+export function Record(options: ConstructorOptions): ClassDecoratorWithOptions;
+export function Record(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
@@ -42,8 +204,10 @@ export function Record<T extends { new (...args: any[]): {} }>(target: T): T {
  * }
  * ```
  */
-export function Value<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function Value<T extends { new (...args: any[]): {} }>(target: T): T;
+export function Value(options: ConstructorOptions): ClassDecoratorWithOptions;
+export function Value(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
@@ -53,6 +217,9 @@ export function Value<T extends { new (...args: any[]): {} }>(target: T): T {
  * - equals(other: T): boolean - Value-based equality comparison
  * - hashCode(): number - Hash code based on field values
  *
+ * Arrays, Maps, Sets, Dates and nested objects are compared structurally,
+ * or through their own equals() method.
+ *
  * @example
  * ```typescript
  * @Equals
@@ -64,17 +231,33 @@ export function Value<T extends { new (...args: any[]): {} }>(target: T): T {
  * const p1 = new Point(1, 2);
  * const p2 = new Point(1, 2);
  * p1.equals(p2); // true
+ *
+ * @Equals({ exclude: ['cache'] })
+ * class Entity {
+ *   @Equals({ deep: false }) owner: User; // compared with ===
+ *   @Equals.Exclude loadedAt: Date;
+ * }
  * ```
  */
-export function Equals<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function Equals<T extends { new (...args: any[]): {} }>(target: T): T;
+export function Equals(options: EqualsOptions): MemberDecoratorWithOptions;
+export function Equals(targetOrOptions: any, propertyKey?: string): any {
+  return memberMarker(targetOrOptions, propertyKey);
+}
+
+export namespace Equals {
+  /** Leaves the field out of equals() and hashCode(). */
+  export function Exclude(target: any, propertyKey: string): void {}
+  /** Compares the field when the class uses `onlyExplicitlyIncluded`. */
+  export function Include(target: any, propertyKey: string): void {}
 }
 
 /**
  * @With decorator - Generates withX() methods for each field.
  *
  * Generates immutable update methods that return a new instance
- * with the specified field changed.
+ * with the specified field changed. Can be applied to a class or
+ * to individual properties.
  *
  * @example
  * ```typescript
@@ -86,10 +269,16 @@ export function Equals<T extends { new (...args: any[]): {} }>(target: T): T {
  *
  * const user = new User(1, 'John');
  * const updated = user.withName('Jane'); // New instance with name='Jane'
+ *
+ * @With({ access: 'protected' })
+ * class Point { ... }
  * ```
  */
-export function With<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function With<T extends { new (...args: any[]): {} }>(target: T): T;
+export function With(target: any, propertyKey: string): void;
+export function With(options: AccessorOptions): MemberDecoratorWithOptions;
+export function With(targetOrOptions: any, propertyKey?: string): any {
+  return memberMarker(targetOrOptions, propertyKey);
 }
 
 /**
@@ -102,18 +291,24 @@ export function With<T extends { new (...args: any[]): {} }>(target: T): T {
  * ```typescript
  * @Getter
  * class User {
- *   private _id: number;
- *   private _name: string;
+ *   id: number;
+ *   name: string;
  * }
  *
  * const user = new User();
- * user.getId(); // returns _id value
+ * user.getId(); // returns id value
+ *
+ * class Account {
+ *   @Getter({ access: 'protected' }) token: string;
+ *   @Getter({ lazy: true }) summary = computeSummary(this); // computed on first getSummary()
+ * }
  * ```
  */
 export function Getter<T extends { new (...args: any[]): {} }>(target: T): T;
 export function Getter(target: any, propertyKey: string): void;
-export function Getter(target: any, propertyKey?: string): any {
-  return propertyKey ? undefined : target;
+export function Getter(options: GetterOptions): MemberDecoratorWithOptions;
+export function Getter(targetOrOptions: any, propertyKey?: string): any {
+  return memberMarker(targetOrOptions, propertyKey);
 }
 
 /**
@@ -126,18 +321,22 @@ export function Getter(target: any, propertyKey?: string): any {
  * ```typescript
  * @Setter
  * class User {
- *   private _id: number;
- *   private _name: string;
+ *   id: number;
+ *   name: string;
  * }
  *
  * const user = new User();
  * user.setId(1);
+ *
+ * @Setter({ access: 'protected' })
+ * class Entity { ... }
  * ```
  */
 export function Setter<T extends { new (...args: any[]): {} }>(target: T): T;
 export function Setter(target: any, propertyKey: string): void;
-export function Setter(target: any, propertyKey?: string): any {
-  return propertyKey ? undefined : target;
+export function Setter(options: GetterSetterOptions): MemberDecoratorWithOptions;
+export function Setter(targetOrOptions: any, propertyKey?: string): any {
+  return memberMarker(targetOrOptions, propertyKey);
 }
 
 /**
@@ -152,9 +351,50 @@ export function Setter(target: any, propertyKey?: string): any {
  * }
  *
  * new User().toString(); // "User(id=1, name=John)"
+ *
+ * @ToString({ exclude: ['password'] })
+ * class Account { ... }
+ *
+ * @ToString
+ * class Session {
+ *   id: string;
+ *   @ToString.Exclude token: string;
+ * }
  * ```
  */
-export function ToString<T extends { new (...args: any[]): {} }>(target: T): T {
+export function ToString<T extends { new (...args: any[]): {} }>(target: T): T;
+export function ToString(options: ToStringOptions): ClassDecoratorWithOptions;
+export function ToString(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
+}
+
+export namespace ToString {
+  /** Leaves the field out of toString(). */
+  export function Exclude(target: any, propertyKey: string): void {}
+  /** Renders the field when the class uses `onlyExplicitlyIncluded`. */
+  export function Include(target: any, propertyKey: string): void {}
+}
+
+/**
+ * @Inspect decorator - Shows instances with their class name in Node.
+ *
+ * Generates a util.inspect.custom method, used by console.log() and the
+ * REPL, and a Symbol.toStringTag getter. Fields are picked and masked as
+ * in toString().
+ *
+ * @example
+ * ```typescript
+ * @Inspect
+ * class User {
+ *   id: number;
+ *   name: string;
+ *   @Sensitive password: string;
+ * }
+ *
+ * console.log(user); // User { id: 1, name: 'John', password: '****' }
+ * ```
+ */
+export function Inspect<T extends { new (...args: any[]): {} }>(target: T): T {
   return target;
 }
 
@@ -172,16 +412,24 @@ export function ToString<T extends { new (...args: any[]): {} }>(target: T): T {
  * }
  *
  * // Generates: constructor, getters, setters, toString, equals, hashCode
+ *
+ * @Data({ native: true })
+ * class Account {
+ *   private _email: string; // account.email = '...'
+ * }
  * ```
  */
-export function Data<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function Data<T extends { new (...args: any[]): {} }>(target: T): T;
+export function Data(options: DataOptions): ClassDecoratorWithOptions;
+export function Data(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
  * @Builder decorator - Implements the builder pattern.
  *
- * Generates a static builder() method and a Builder class.
+ * Generates a static builder() method and a companion `<ClassName>Builder`
+ * class with one fluent method per field and a build() method.
  *
  * @example
  * ```typescript
@@ -215,10 +463,17 @@ export function Builder<T extends { new (...args: any[]): {} }>(target: T): T {
  * }
  *
  * const user = new User(); // Works!
+ *
+ * @NoArgsConstructor({ staticName: 'create' })
+ * class Session {}
+ *
+ * const session = Session.create();
  * ```
  */
-export function NoArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function NoArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export function NoArgsConstructor(options: StaticConstructorOptions): ClassDecoratorWithOptions;
+export function NoArgsConstructor(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
@@ -233,10 +488,28 @@ export function NoArgsConstructor<T extends { new (...args: any[]): {} }>(target
  * }
  *
  * const user = new User(1, 'John');
+ *
+ * @AllArgsConstructor({ style: 'object' })
+ * class Account {
+ *   id: number;
+ *   owner?: string;
+ * }
+ *
+ * const account = new Account({ id: 1 });
+ *
+ * @AllArgsConstructor({ staticName: 'of' })
+ * class Point {
+ *   x: number;
+ *   y: number;
+ * }
+ *
+ * const point = Point.of(1, 2); // new Point(1, 2) is not allowed
  * ```
  */
-export function AllArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function AllArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export function AllArgsConstructor(options: ConstructorOptions): ClassDecoratorWithOptions;
+export function AllArgsConstructor(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
@@ -257,8 +530,10 @@ export function AllArgsConstructor<T extends { new (...args: any[]): {} }>(targe
  * const user = new User(1, 'John');
  * ```
  */
-export function RequiredArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T {
-  return target;
+export function RequiredArgsConstructor<T extends { new (...args: any[]): {} }>(target: T): T;
+export function RequiredArgsConstructor(options: ConstructorOptions): ClassDecoratorWithOptions;
+export function RequiredArgsConstructor(targetOrOptions: any): any {
+  return classMarker(targetOrOptions);
 }
 
 /**
@@ -283,6 +558,52 @@ export function NonNull(target: any, propertyKey: string): void {
   // No-op marker
 }
 
+/**
+ * @Sensitive decorator - Masks a field in generated toString().
+ *
+ * The field is still listed, so logs show that it exists, but its value
+ * is replaced by a mask.
+ *
+ * @example
+ * ```typescript
+ * @ToString
+ * class Payment {
+ *   id: number;
+ *   @Sensitive password: string;
+ *   @Sensitive({ showLast: 4 }) card: string;
+ * }
+ *
+ * payment.toString(); // "Payment(id=1, password=****, card=****4242)"
+ * ```
+ */
+export function Sensitive(target: any, propertyKey: string): void;
+export function Sensitive(options: SensitiveOptions): (target: any, propertyKey: string) => void;
+export function Sensitive(targetOrOptions: any, propertyKey?: string): any {
+  return propertyKey !== undefined ? undefined : () => {};
+}
+
+/**
+ * @Order decorator - Pins a field's position.
+ *
+ * The position fixes the field's parameter in generated constructors, withX()
+ * and toString(), so moving the field in the class body does not change them.
+ * Once one field has a position, every field needs one, running from 0.
+ *
+ * @example
+ * ```typescript
+ * @AllArgsConstructor
+ * class Range {
+ *   @Order(1) end: number;
+ *   @Order(0) start: number;
+ * }
+ *
+ * new Range(1, 5); // start = 1, end = 5
+ * ```
+ */
+export function Order(position: number): (target: any, propertyKey: string) => void {
+  return () => {};
+}
+
 /**
  * @Log decorator - Generates a logger field.
  *
@@ -321,6 +642,29 @@ export function Singleton<T extends { new (...args: any[]): {} }>(target: T): T
   return target;
 }
 
+/**
+ * @Accessors decorator - Configures how getters, setters, with-methods
+ * and builder methods are named and typed.
+ *
+ * Can be applied to a class or to individual properties.
+ *
+ * @example
+ * ```typescript
+ * @Getter
+ * @Setter
+ * @Accessors({ fluent: true, prefix: ['_'] })
+ * class User {
+ *   private _name: string;
+ * }
+ *
+ * const user = new User().name('John'); // setter returns this
+ * user.name(); // 'John'
+ * ```
+ */
+export function Accessors(options: AccessorsOptions): MemberDecoratorWithOptions {
+  return memberMarker(options);
+}
+
 /**
  * @Memoize decorator - Caches method results.
  *
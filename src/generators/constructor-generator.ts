@@ -1,16 +1,22 @@
 import * as ts from 'typescript';
-import { TransformationPlan } from '../transformer/context';
+import { SuperParameter, TransformationPlan } from '../transformer/context';
 import {
+  createConstructorArguments,
   createConstructorParameter,
+  createNewInstance,
   createPropertyAssignment
 } from '../utils/ast-helpers';
-import { generateNonNullValidation } from './method-generator';
-import { PropertyInfo } from '../utils/decorator-utils';
+import {
+  cloneTypeParameters,
+  createTypeReferenceWithArguments,
+  generateNonNullValidation
+} from './method-generator';
+import { PropertyInfo, getUserConstructor, hasConstructor } from '../utils/decorator-utils';
 
 /**
  * Gets properties for constructor based on constructor type.
  */
-function getConstructorProperties(plan: TransformationPlan): PropertyInfo[] {
+export function getConstructorProperties(plan: TransformationPlan): PropertyInfo[] {
   switch (plan.constructorType) {
     case 'none':
       return [];
@@ -18,12 +24,61 @@ function getConstructorProperties(plan: TransformationPlan): PropertyInfo[] {
       return plan.properties.filter(p => !p.isOptional && !p.hasInitializer);
     case 'all':
     default:
+      // Parameters keep the field order, so existing call sites keep working;
+      // optional fields ahead of required ones take `T | undefined`
       return plan.properties;
   }
 }
 
+/**
+ * Pairs each optional field of a positional generated constructor that a
+ * required field follows with that field. Such a parameter cannot be left out
+ * and takes `T | undefined` instead.
+ */
+export function getOptionalPropertiesBeforeRequired(
+  plan: TransformationPlan
+): Array<{ optional: PropertyInfo; required: PropertyInfo }> {
+  if (!shouldGenerateConstructor(plan) || plan.constructorStyle === 'object') {
+    return [];
+  }
+
+  const superParams = getSuperParameters(plan);
+  const ownProps = getConstructorProperties(plan).filter(p => !superParams.some(s => s.name === p.name));
+  return ownProps.flatMap((prop, index) => {
+    const required = ownProps.slice(index + 1).find(p => !isOptionalArgument(p));
+    return isOptionalArgument(prop) && required ? [{ optional: prop, required }] : [];
+  });
+}
+
+/**
+ * Gets the base constructor parameters a generated constructor takes first.
+ * A no-args constructor calls super() without arguments.
+ */
+export function getSuperParameters(plan: TransformationPlan): SuperParameter[] {
+  return plan.constructorType === 'none' ? [] : plan.superParameters ?? [];
+}
+
+/**
+ * Name of the single parameter of object-style constructors.
+ */
+const PROPS_PARAMETER = 'props';
+
+/**
+ * Whether a generated constructor may leave out a field:
+ * optional fields and fields with an initializer, which keep their default.
+ */
+export function isOptionalArgument(prop: PropertyInfo): boolean {
+  return prop.isOptional || prop.hasInitializer;
+}
+
 /**
  * Generates a constructor declaration based on the transformation plan.
+ *
+ * In a derived class the base constructor's parameters come first and are
+ * forwarded through super(...) before any field is assigned.
+ *
+ * Object-style constructors take a single `props` object instead:
+ * constructor(props: { id: number; name?: string }) { this.id = props.id; ... }
  */
 export function generateConstructor(
   factory: ts.NodeFactory,
@@ -31,57 +86,339 @@ export function generateConstructor(
   additionalStatements: ts.Statement[] = []
 ): ts.ConstructorDeclaration {
   const constructorProps = getConstructorProperties(plan);
+  const superParams = getSuperParameters(plan);
+  const isObjectStyle = plan.constructorStyle === 'object';
+
+  // Fields named like a base parameter are assigned from that parameter
+  const ownParams = constructorProps.filter(p => !superParams.some(s => s.name === p.name));
+
+  // Reads an argument: `name`, or `props.name` in object-style constructors
+  const argument = (name: string): ts.Expression =>
+    isObjectStyle
+      ? factory.createPropertyAccessExpression(factory.createIdentifier(PROPS_PARAMETER), name)
+      : factory.createIdentifier(name);
 
   // Create parameters from properties
-  const parameters = constructorProps.map(prop =>
-    createConstructorParameter(factory, prop.name, prop.type)
-  );
+  const parameters = isObjectStyle
+    ? [createPropsParameter(factory, superParams, ownParams)]
+    : createPositionalParameters(factory, superParams, ownParams);
 
-  // Create validation statements for @NonNull properties
+  // super(a, b) must run before `this` is touched
+  const superCall = plan.superParameters
+    ? [createSuperCall(factory, plan, superParams, argument)]
+    : [];
+
+  // Create validation statements for @NonNull properties; fields with an
+  // initializer are checked once the default has had a chance to apply
   const validations: ts.Statement[] = [];
+  const fieldValidations: ts.Statement[] = [];
   if (plan.validateNonNull) {
     for (const prop of constructorProps) {
-      if (prop.isNonNull) {
-        validations.push(generateNonNullValidation(factory, prop.name));
+      if (prop.isNonNull && prop.hasInitializer) {
+        fieldValidations.push(generateNonNullValidation(
+          factory,
+          prop.name,
+          factory.createPropertyAccessExpression(factory.createThis(), prop.name)
+        ));
+      } else if (prop.isNonNull) {
+        validations.push(generateNonNullValidation(factory, prop.name, argument(prop.name)));
       }
     }
   }
 
   // Create assignment statements: this.x = x;
   const assignments = constructorProps.map(prop =>
-    createPropertyAssignment(factory, prop.name)
+    isObjectStyle || prop.hasInitializer
+      ? createArgumentAssignment(factory, prop, argument(prop.name))
+      : createPropertyAssignment(factory, prop.name)
   );
 
   // Combine all statements
   const bodyStatements: ts.Statement[] = [
+    ...superCall,
     ...validations,
     ...assignments,
+    ...fieldValidations,
     ...additionalStatements
   ];
 
   // Create constructor body
   const body = factory.createBlock(bodyStatements, true);
 
+  // With a static factory, instances can only be created through it
+  const modifiers = plan.staticConstructorName
+    ? [factory.createModifier(ts.SyntaxKind.PrivateKeyword)]
+    : undefined;
+
   return factory.createConstructorDeclaration(
-    undefined,
+    modifiers,
     parameters,
     body
   );
 }
 
+/**
+ * Generates the static factory method that replaces a private constructor.
+ *
+ * Example output for `staticName: 'of'`:
+ * static of(id: number, name: string): User {
+ *   return new User(id, name);
+ * }
+ */
+export function generateStaticConstructor(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  constructorDeclaration: ts.ConstructorDeclaration
+): ts.MethodDeclaration {
+  const parameters = constructorDeclaration.parameters.map(p =>
+    factory.createParameterDeclaration(
+      undefined,
+      p.dotDotDotToken,
+      p.name,
+      p.questionToken,
+      p.type,
+      p.initializer
+    )
+  );
+
+  const args = parameters.map(p => factory.createIdentifier((p.name as ts.Identifier).text));
+
+  return factory.createMethodDeclaration(
+    [factory.createModifier(ts.SyntaxKind.StaticKeyword)],
+    undefined,
+    factory.createIdentifier(plan.staticConstructorName ?? 'of'),
+    undefined,
+    cloneTypeParameters(factory, plan),
+    parameters,
+    createTypeReferenceWithArguments(factory, plan, plan.className),
+    factory.createBlock(
+      [factory.createReturnStatement(createNewInstance(factory, plan.className, args))],
+      true
+    )
+  );
+}
+
+/**
+ * Creates the `props` parameter of an object-style constructor.
+ * It defaults to `{}` when every member is optional.
+ */
+function createPropsParameter(
+  factory: ts.NodeFactory,
+  superParams: SuperParameter[],
+  ownProps: PropertyInfo[]
+): ts.ParameterDeclaration {
+  const members = [
+    ...superParams.map(param =>
+      createPropsMember(factory, param.name, param.type, param.isOptional && !param.isRest)
+    ),
+    ...ownProps.map(prop =>
+      createPropsMember(factory, prop.name, prop.type, isOptionalArgument(prop))
+    )
+  ];
+  const isOptional = members.every(m => m.questionToken);
+
+  return factory.createParameterDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier(PROPS_PARAMETER),
+    undefined,
+    factory.createTypeLiteralNode(members),
+    isOptional ? factory.createObjectLiteralExpression() : undefined
+  );
+}
+
+function createPropsMember(
+  factory: ts.NodeFactory,
+  name: string,
+  type: ts.TypeNode | undefined,
+  isOptional: boolean
+): ts.PropertySignature {
+  return factory.createPropertySignature(
+    undefined,
+    factory.createIdentifier(name),
+    isOptional ? factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+    type
+  );
+}
+
+/**
+ * Assigns an argument, or a member of the props object, to its field.
+ * Fields with an initializer keep their default when it is left out.
+ */
+function createArgumentAssignment(
+  factory: ts.NodeFactory,
+  prop: PropertyInfo,
+  value: ts.Expression
+): ts.Statement {
+  // this.x = props.x;
+  const assignment = factory.createExpressionStatement(
+    factory.createBinaryExpression(
+      factory.createPropertyAccessExpression(factory.createThis(), prop.name),
+      factory.createToken(ts.SyntaxKind.EqualsToken),
+      value
+    )
+  );
+
+  if (!prop.hasInitializer) {
+    return assignment;
+  }
+
+  // if (props.x !== undefined) { this.x = props.x; }
+  return factory.createIfStatement(
+    factory.createBinaryExpression(
+      value,
+      factory.createToken(ts.SyntaxKind.ExclamationEqualsEqualsToken),
+      factory.createIdentifier('undefined')
+    ),
+    factory.createBlock([assignment], true)
+  );
+}
+
+/**
+ * Creates the parameters of a positional constructor: the base constructor's,
+ * then the fields'. A parameter can only be optional when all parameters after
+ * it are; otherwise it becomes `T | undefined`. Rest parameters of the base
+ * are taken as an array so the class's own fields can follow.
+ */
+function createPositionalParameters(
+  factory: ts.NodeFactory,
+  superParams: SuperParameter[],
+  ownProps: PropertyInfo[]
+): ts.ParameterDeclaration[] {
+  const params = [
+    ...superParams.map(p => ({ name: p.name, type: p.type, isOptional: p.isOptional && !p.isRest })),
+    ...ownProps.map(p => ({ name: p.name, type: p.type, isOptional: isOptionalArgument(p) }))
+  ];
+
+  return params.map((param, index) => {
+    const isTrailing = params.slice(index + 1).every(p => p.isOptional);
+    if (!param.isOptional) {
+      return createConstructorParameter(factory, param.name, param.type);
+    }
+
+    const type = param.type && !isTrailing
+      ? factory.createUnionTypeNode([param.type, factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)])
+      : param.type;
+
+    return factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      factory.createIdentifier(param.name),
+      isTrailing ? factory.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+      type,
+      undefined
+    );
+  });
+}
+
+/**
+ * Creates the super(...) call forwarding the base constructor parameters.
+ * An object-style base of an object-style class receives the props object as is.
+ */
+function createSuperCall(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  params: SuperParameter[],
+  argument: (name: string) => ts.Expression
+): ts.Statement {
+  let args: ts.Expression[] = [];
+  if (params.length > 0 && plan.superConstructorStyle === 'object' && plan.constructorStyle === 'object') {
+    args = [factory.createIdentifier(PROPS_PARAMETER)];
+  } else if (params.length > 0) {
+    args = createConstructorArguments(
+      factory,
+      plan.superConstructorStyle,
+      params.map(param => [
+        param.name,
+        param.isRest ? factory.createSpreadElement(argument(param.name)) : argument(param.name)
+      ])
+    );
+  }
+
+  return factory.createExpressionStatement(
+    factory.createCallExpression(factory.createSuper(), undefined, args)
+  );
+}
+
+/**
+ * Gets the names of the arguments the class's constructor takes, in order,
+ * as withX() and build() pass them: those of a user-written constructor that
+ * is kept, or the base parameters and fields of the generated constructor.
+ * Undefined when a kept constructor has parameters they cannot pass on.
+ */
+export function getConstructorArgumentNames(plan: TransformationPlan): string[] | undefined {
+  const userConstructor = getUserConstructor(plan.classDeclaration);
+  if (userConstructor && !shouldGenerateConstructor(plan)) {
+    return getUnforwardableParameters(plan).length === 0
+      ? userConstructor.parameters.map(p => (p.name as ts.Identifier).text)
+      : undefined;
+  }
+
+  const superNames = getSuperParameters(plan).map(p => p.name);
+  return [
+    ...superNames,
+    ...getConstructorProperties(plan).map(p => p.name).filter(name => !superNames.includes(name))
+  ];
+}
+
+/**
+ * Gets the parameters of a kept user-written constructor that withX() and
+ * build() cannot pass on, as they read each argument back from the field of
+ * the same name: parameters without such a field, destructured and rest parameters.
+ */
+export function getUnforwardableParameters(plan: TransformationPlan): ts.ParameterDeclaration[] {
+  const userConstructor = getUserConstructor(plan.classDeclaration);
+  if (!userConstructor || shouldGenerateConstructor(plan)) {
+    return [];
+  }
+
+  return userConstructor.parameters.filter(p =>
+    !ts.isIdentifier(p.name) ||
+    p.dotDotDotToken !== undefined ||
+    !plan.properties.some(prop => prop.name === (p.name as ts.Identifier).text)
+  );
+}
+
+/**
+ * Gets the base parameters of a generated constructor that withX() cannot
+ * pass on, as neither the class nor its base keeps them in a same-named field.
+ */
+export function getUnforwardableSuperParameters(plan: TransformationPlan): SuperParameter[] {
+  if (!shouldGenerateConstructor(plan)) {
+    return [];
+  }
+
+  return getSuperParameters(plan).filter(param =>
+    !param.hasField && !plan.properties.some(p => p.name === param.name)
+  );
+}
+
+/**
+ * Gets the user-written compact constructor of a record: a single
+ * parameterless constructor whose body runs inside the generated one,
+ * after the fields are assigned and before the instance is frozen.
+ */
+export function getCompactConstructor(plan: TransformationPlan): ts.ConstructorDeclaration | undefined {
+  if (!plan.compactConstructor) {
+    return undefined;
+  }
+
+  const constructors = plan.classDeclaration.members.filter(ts.isConstructorDeclaration);
+  const [constructor] = constructors;
+  if (constructors.length !== 1 || !constructor.body || constructor.parameters.length > 0) {
+    return undefined;
+  }
+  return constructor;
+}
+
 /**
  * Checks if a constructor needs to be generated.
+ * A user-written constructor takes precedence unless it is a compact constructor.
  */
 export function shouldGenerateConstructor(plan: TransformationPlan): boolean {
   if (!plan.generateConstructor) {
     return false;
   }
 
-  // NoArgsConstructor should always generate
-  if (plan.constructorType === 'none') {
-    return true;
-  }
-
-  // For 'all' and 'required', always generate (even if empty)
-  return true;
+  return !hasConstructor(plan.classDeclaration) || getCompactConstructor(plan) !== undefined;
 }
@@ -0,0 +1,483 @@
+import * as ts from 'typescript';
+import { TransformationPlan, getPropertyOptions } from '../transformer/context';
+import { PropertyInfo } from '../utils/decorator-utils';
+import { createStatementBuilders, createStaticAccess } from '../utils/ast-helpers';
+
+/**
+ * Name of the private static comparison method generated next to equals().
+ */
+export const DEEP_EQUALS_METHOD = '_deepEquals';
+
+/**
+ * Name of the private static hash method generated next to hashCode().
+ */
+export const HASH_METHOD = '_hash';
+
+/**
+ * Name of the stack of (a, b) pairs _deepEquals() is comparing, declared in _deepEquals().
+ */
+export const COMPARING_STACK = 'comparing';
+
+/**
+ * Name of the stack of objects _hash() is hashing, declared in _hash().
+ */
+export const HASHING_STACK = 'hashing';
+
+/**
+ * Whether equals() compares a field structurally rather than with `===`.
+ * @Equals({ deep: false }) on the class or the field keeps reference
+ * equality; fields of primitive types never need more than `===`.
+ */
+export function usesDeepEquality(plan: TransformationPlan, property: PropertyInfo): boolean {
+  if (getPropertyOptions(plan, property, 'Equals').deep === false) {
+    return false;
+  }
+
+  return !hasPrimitiveType(property);
+}
+
+/**
+ * Whether a field syntactically holds a primitive: through its type
+ * annotation or, without one, a primitive literal initializer.
+ */
+export function hasPrimitiveType(property: PropertyInfo): boolean {
+  return property.type
+    ? isPrimitiveTypeNode(property.type)
+    : isPrimitiveLiteral(property.initializer);
+}
+
+function isPrimitiveTypeNode(type: ts.TypeNode): boolean {
+  if (ts.isParenthesizedTypeNode(type)) {
+    return isPrimitiveTypeNode(type.type);
+  }
+
+  if (ts.isUnionTypeNode(type)) {
+    return type.types.every(isPrimitiveTypeNode);
+  }
+
+  switch (type.kind) {
+    case ts.SyntaxKind.StringKeyword:
+    case ts.SyntaxKind.NumberKeyword:
+    case ts.SyntaxKind.BooleanKeyword:
+    case ts.SyntaxKind.BigIntKeyword:
+    case ts.SyntaxKind.SymbolKeyword:
+    case ts.SyntaxKind.UndefinedKeyword:
+    case ts.SyntaxKind.NullKeyword:
+    case ts.SyntaxKind.LiteralType:
+    case ts.SyntaxKind.TemplateLiteralType:
+      return true;
+    default:
+      return false;
+  }
+}
+
+function isPrimitiveLiteral(initializer: ts.Expression | undefined): boolean {
+  return initializer !== undefined && (
+    ts.isStringLiteral(initializer) ||
+    ts.isNoSubstitutionTemplateLiteral(initializer) ||
+    ts.isNumericLiteral(initializer) ||
+    ts.isBigIntLiteral(initializer) ||
+    initializer.kind === ts.SyntaxKind.TrueKeyword ||
+    initializer.kind === ts.SyntaxKind.FalseKeyword
+  );
+}
+
+/**
+ * Declares the `comparing` stack in _deepEquals(), shared across all generated
+ * comparison methods through a global symbol.
+ */
+export function generateComparingStack(factory: ts.NodeFactory): ts.VariableStatement {
+  return createStatementBuilders(factory).sharedStack(
+    COMPARING_STACK,
+    'ts-lombok.equals',
+    () => ts.setEmitFlags(factory.createTupleTypeNode([
+      factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+      factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+    ]), ts.EmitFlags.SingleLine)
+  );
+}
+
+/**
+ * Declares the `hashing` stack in _hash(), shared across all generated
+ * hash methods through a global symbol.
+ */
+export function generateHashingStack(factory: ts.NodeFactory): ts.VariableStatement {
+  return createStatementBuilders(factory).sharedStack(HASHING_STACK, 'ts-lombok.hashCode', () => factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword));
+}
+
+/**
+ * Generates the private static comparison method equals() uses for
+ * non-primitive fields, created once per class like _hash().
+ *
+ * Example output:
+ * private static _deepEquals(a: any, b: any): boolean {
+ *   const comparing: [unknown, unknown][] = ...;
+ *   if (a === b) return true;
+ *   if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false;
+ *   if (comparing.some(pair => pair[0] === a && pair[1] === b)) return true;
+ *   comparing.push([a, b]);
+ *   try {
+ *     if (typeof a.equals === 'function') return a.equals(b);
+ *     if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+ *     if (a instanceof Date) return a.getTime() === b.getTime();
+ *     ...
+ *   } finally {
+ *     comparing.pop();
+ *   }
+ * }
+ *
+ * Objects with their own equals() decide for themselves; arrays and typed
+ * arrays compare their elements, Maps their entries, Sets their values,
+ * and other objects their own enumerable properties.
+ *
+ * Pairs being compared are kept on the `comparing` stack, which is shared
+ * with nested equals() calls; a pair met again is treated as equal, so
+ * graphs with back-references compare without endless recursion.
+ */
+export function generateDeepEqualsMethod(
+  factory: ts.NodeFactory,
+  className: string,
+  methodName: string
+): ts.MethodDeclaration {
+  const { id, call, not, or, and, instanceOf, typeIs, typeIsNot, returnIf, forOf, forIndex, pushed, helperMethod } =
+    createStatementBuilders(factory);
+  const comparing = id(COMPARING_STACK);
+  const a = id('a');
+  const b = id('b');
+  const deepEquals = (left: ts.Expression, right: ts.Expression) =>
+    factory.createCallExpression(createStaticAccess(factory, className, methodName), undefined, [left, right]);
+  const returnFalseIf = (condition: ts.Expression) => returnIf(condition, factory.createFalse());
+  const sizesDiffer = factory.createStrictInequality(
+    factory.createPropertyAccessExpression(a, 'size'),
+    factory.createPropertyAccessExpression(b, 'size')
+  );
+
+  // if (Array.isArray(a) || ArrayBuffer.isView(a)) { compare length and elements }
+  const i = id('i');
+  const elements = factory.createIfStatement(
+    or(call(id('Array'), 'isArray', [a]), call(id('ArrayBuffer'), 'isView', [a])),
+    factory.createBlock([
+      returnFalseIf(factory.createStrictInequality(
+        factory.createPropertyAccessExpression(a, 'length'),
+        factory.createPropertyAccessExpression(b, 'length')
+      )),
+      forIndex(i, factory.createPropertyAccessExpression(a, 'length'), returnFalseIf(not(deepEquals(
+        factory.createElementAccessExpression(a, i),
+        factory.createElementAccessExpression(b, i)
+      )))),
+      factory.createReturnStatement(factory.createTrue())
+    ], true)
+  );
+
+  // if (a instanceof Map) { compare entries by key }
+  const key = id('key');
+  const value = id('value');
+  const entries = factory.createIfStatement(
+    instanceOf(a, 'Map'),
+    factory.createBlock([
+      returnFalseIf(sizesDiffer),
+      forOf(
+        factory.createArrayBindingPattern([
+          factory.createBindingElement(undefined, undefined, key),
+          factory.createBindingElement(undefined, undefined, value)
+        ]),
+        a,
+        returnFalseIf(or(not(call(b, 'has', [key])), not(deepEquals(value, call(b, 'get', [key])))))
+      ),
+      factory.createReturnStatement(factory.createTrue())
+    ], true)
+  );
+
+  // if (a instanceof Set) { every value of a has an equal value in b }
+  const other = id('other');
+  const values = factory.createIfStatement(
+    instanceOf(a, 'Set'),
+    factory.createBlock([
+      returnFalseIf(sizesDiffer),
+      forOf(
+        value,
+        a,
+        returnFalseIf(and(
+          not(call(b, 'has', [value])),
+          not(call(
+            factory.createArrayLiteralExpression([factory.createSpreadElement(b)]),
+            'some',
+            [factory.createArrowFunction(
+              undefined,
+              undefined,
+              [factory.createParameterDeclaration(undefined, undefined, other)],
+              undefined,
+              factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+              deepEquals(value, other)
+            )]
+          ))
+        ))
+      ),
+      factory.createReturnStatement(factory.createTrue())
+    ], true)
+  );
+
+  // Other objects compare their own enumerable properties
+  const pair = id('pair');
+  const keys = id('keys');
+  const properties = [
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [factory.createVariableDeclaration(keys, undefined, undefined, call(id('Object'), 'keys', [a]))],
+        ts.NodeFlags.Const
+      )
+    ),
+    returnFalseIf(factory.createStrictInequality(
+      factory.createPropertyAccessExpression(keys, 'length'),
+      factory.createPropertyAccessExpression(call(id('Object'), 'keys', [b]), 'length')
+    )),
+    forOf(
+      key,
+      keys,
+      returnFalseIf(or(
+        not(call(
+          factory.createPropertyAccessExpression(factory.createPropertyAccessExpression(id('Object'), 'prototype'), 'hasOwnProperty'),
+          'call',
+          [b, key]
+        )),
+        not(deepEquals(factory.createElementAccessExpression(a, key), factory.createElementAccessExpression(b, key)))
+      ))
+    ),
+    factory.createReturnStatement(factory.createTrue())
+  ];
+
+  const statements: ts.Statement[] = [
+    generateComparingStack(factory),
+    returnIf(factory.createStrictEquality(a, b), factory.createTrue()),
+    returnFalseIf(or(
+      factory.createEquality(a, factory.createNull()),
+      factory.createEquality(b, factory.createNull()),
+      typeIsNot(a, 'object'),
+      typeIsNot(b, 'object')
+    )),
+    // if (comparing.some(pair => pair[0] === a && pair[1] === b)) return true;
+    returnIf(
+      call(comparing, 'some', [factory.createArrowFunction(
+        undefined,
+        undefined,
+        [factory.createParameterDeclaration(undefined, undefined, pair)],
+        undefined,
+        factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+        and(
+          factory.createStrictEquality(factory.createElementAccessExpression(pair, 0), a),
+          factory.createStrictEquality(factory.createElementAccessExpression(pair, 1), b)
+        )
+      )]),
+      factory.createTrue()
+    ),
+    ...pushed(comparing, factory.createArrayLiteralExpression([a, b]), [
+      returnIf(
+        typeIs(factory.createPropertyAccessExpression(a, 'equals'), 'function'),
+        call(a, 'equals', [b])
+      ),
+      returnFalseIf(factory.createStrictInequality(
+        call(id('Object'), 'getPrototypeOf', [a]),
+        call(id('Object'), 'getPrototypeOf', [b])
+      )),
+      returnIf(
+        instanceOf(a, 'Date'),
+        factory.createStrictEquality(call(a, 'getTime'), call(b, 'getTime'))
+      ),
+      returnIf(
+        instanceOf(a, 'RegExp'),
+        and(
+          factory.createStrictEquality(
+            factory.createPropertyAccessExpression(a, 'source'),
+            factory.createPropertyAccessExpression(b, 'source')
+          ),
+          factory.createStrictEquality(
+            factory.createPropertyAccessExpression(a, 'flags'),
+            factory.createPropertyAccessExpression(b, 'flags')
+          )
+        )
+      ),
+      elements,
+      entries,
+      values,
+      ...properties
+    ])
+  ];
+
+  return helperMethod(methodName, [a, b], ts.SyntaxKind.BooleanKeyword, statements);
+}
+
+/**
+ * Generates the private static hash method used by hashCode(), which hashes
+ * values the way _deepEquals() compares them, so that equal objects hash equal.
+ *
+ * Example output:
+ * private static _hash(value: any): number {
+ *   if (value == null) return 0;
+ *   if (typeof value === 'number') { integers hash to themselves, other numbers by their IEEE-754 bits }
+ *   if (typeof value === 'boolean') return value ? 1231 : 1237;
+ *   if (typeof value === 'bigint') return User._hash(value.toString());
+ *   if (typeof value === 'string') { result = 31 * result + charCode for each character }
+ *   if (typeof value.hashCode === 'function') return value.hashCode();
+ *   ...
+ * }
+ *
+ * With guardCycles, objects being hashed are kept on the `hashing` stack,
+ * shared with nested hashCode() calls, and an object met again hashes to 0.
+ *
+ * Arrays and typed arrays combine their element hashes in order; Maps, Sets
+ * and other objects add up their entry hashes, since their order does not
+ * matter to _deepEquals(). Objects with an equals() but no hashCode() hash
+ * to 0, as their notion of equality is unknown.
+ */
+export function generateHashMethod(
+  factory: ts.NodeFactory,
+  className: string,
+  methodName: string,
+  guardCycles: boolean
+): ts.MethodDeclaration {
+  const { id, call, or, instanceOf, typeIs, typeIsNot, returnIf, forOf, forIndex, pushed, helperMethod } =
+    createStatementBuilders(factory);
+  const hashing = id(HASHING_STACK);
+  const value = id('value');
+  const result = id('result');
+  const i = id('i');
+  const hash = (expression: ts.Expression) =>
+    factory.createCallExpression(createStaticAccess(factory, className, methodName), undefined, [expression]);
+  const number = (n: number) => factory.createNumericLiteral(n);
+  const toInt32 = (expression: ts.Expression) =>
+    factory.createBitwiseOr(expression, number(0));
+  const declareResult = (initial: number) =>
+    factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [factory.createVariableDeclaration(result, undefined, undefined, number(initial))],
+        ts.NodeFlags.Let
+      )
+    );
+  const assignResult = (expression: ts.Expression) =>
+    factory.createExpressionStatement(factory.createAssignment(result, toInt32(expression)));
+  // result = Math.imul(result, 31) + x | 0
+  const combineOrdered = (expression: ts.Expression) =>
+    assignResult(factory.createAdd(call(id('Math'), 'imul', [result, number(31)]), expression));
+  // result = result + x | 0
+  const combineUnordered = (expression: ts.Expression) =>
+    assignResult(factory.createAdd(result, expression));
+  const returnResult = factory.createReturnStatement(result);
+
+  // Numbers equal under === hash equal; -0 and 0 both hash to 0
+  const view = id('view');
+  const numbers = factory.createIfStatement(
+    typeIs(value, 'number'),
+    factory.createBlock([
+      returnIf(factory.createStrictEquality(toInt32(value), value), toInt32(value)),
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(
+            view,
+            undefined,
+            undefined,
+            factory.createNewExpression(id('DataView'), undefined, [
+              factory.createNewExpression(id('ArrayBuffer'), undefined, [number(8)])
+            ])
+          )],
+          ts.NodeFlags.Const
+        )
+      ),
+      factory.createExpressionStatement(call(view, 'setFloat64', [number(0), value])),
+      factory.createReturnStatement(factory.createBitwiseXor(
+        call(view, 'getInt32', [number(0)]),
+        call(view, 'getInt32', [number(4)])
+      ))
+    ], true)
+  );
+
+  const strings = factory.createIfStatement(
+    typeIs(value, 'string'),
+    factory.createBlock([
+      declareResult(0),
+      forIndex(
+        i,
+        factory.createPropertyAccessExpression(value, 'length'),
+        combineOrdered(call(value, 'charCodeAt', [i]))
+      ),
+      returnResult
+    ], true)
+  );
+
+  const elements = factory.createIfStatement(
+    or(call(id('Array'), 'isArray', [value]), call(id('ArrayBuffer'), 'isView', [value])),
+    factory.createBlock([
+      declareResult(1),
+      forIndex(
+        i,
+        factory.createPropertyAccessExpression(value, 'length'),
+        combineOrdered(hash(factory.createElementAccessExpression(value, i)))
+      ),
+      returnResult
+    ], true)
+  );
+
+  const key = id('key');
+  const entry = id('entry');
+  const hashEntry = (k: ts.Expression, v: ts.Expression) =>
+    factory.createParenthesizedExpression(factory.createBitwiseXor(hash(k), hash(v)));
+
+  const statements: ts.Statement[] = [
+    returnIf(factory.createEquality(value, factory.createNull()), number(0)),
+    numbers,
+    returnIf(
+      typeIs(value, 'boolean'),
+      factory.createConditionalExpression(value, undefined, number(1231), undefined, number(1237))
+    ),
+    returnIf(typeIs(value, 'bigint'), hash(call(value, 'toString'))),
+    strings,
+    returnIf(typeIsNot(value, 'object'), number(0))
+  ];
+  const objects: ts.Statement[] = [
+    returnIf(typeIs(factory.createPropertyAccessExpression(value, 'hashCode'), 'function'), call(value, 'hashCode')),
+    returnIf(typeIs(factory.createPropertyAccessExpression(value, 'equals'), 'function'), number(0)),
+    returnIf(instanceOf(value, 'Date'), hash(call(value, 'getTime'))),
+    returnIf(instanceOf(value, 'RegExp'), hash(call(value, 'toString'))),
+    elements,
+    declareResult(0),
+    factory.createIfStatement(
+      instanceOf(value, 'Map'),
+      factory.createBlock([
+        forOf(
+          factory.createArrayBindingPattern([
+            factory.createBindingElement(undefined, undefined, key),
+            factory.createBindingElement(undefined, undefined, entry)
+          ]),
+          value,
+          combineUnordered(hashEntry(key, entry))
+        ),
+        returnResult
+      ], true)
+    ),
+    factory.createIfStatement(
+      instanceOf(value, 'Set'),
+      factory.createBlock([
+        forOf(entry, value, combineUnordered(hash(entry))),
+        returnResult
+      ], true)
+    ),
+    forOf(
+      key,
+      call(id('Object'), 'keys', [value]),
+      combineUnordered(hashEntry(key, factory.createElementAccessExpression(value, key)))
+    ),
+    returnResult
+  ];
+
+  if (guardCycles) {
+    // if (hashing.includes(value)) return 0; hashing.push(value); try { ... } finally { hashing.pop(); }
+    statements.unshift(generateHashingStack(factory));
+    statements.push(returnIf(call(hashing, 'includes', [value]), number(0)), ...pushed(hashing, value, objects));
+  } else {
+    statements.push(...objects);
+  }
+
+  return helperMethod(methodName, [value], ts.SyntaxKind.NumberKeyword, statements);
+}
@@ -1,15 +1,238 @@
 import * as ts from 'typescript';
-import { TransformationPlan } from '../transformer/context';
+import { TransformationPlan, SuperParameter, getPropertyOptions } from '../transformer/context';
+import { FieldInclusion, PropertyInfo, hasMethod } from '../utils/decorator-utils';
+import { getConstructorArgumentNames, getUnforwardableSuperParameters } from './constructor-generator';
 import {
+  DEEP_EQUALS_METHOD,
+  HASH_METHOD,
+  generateDeepEqualsMethod,
+  generateHashMethod,
+  hasPrimitiveType,
+  usesDeepEquality
+} from './equality-generator';
+import {
+  CYCLE_MARKER,
+  FORMAT_METHOD,
+  RENDERING_STACK,
+  ToStringStyle,
+  generateFormatMethod,
+  generateRenderingStack,
+  usesFormatFunction
+} from './to-string-generator';
+import {
+  AccessLevel,
+  createAccessModifiers,
   createMethodDeclaration,
   createReturnStatement,
   createToStringTemplateLiteral,
+  createInspectTemplateLiteral,
+  TemplatePart,
+  ToStringFormat,
   createHashCodeComputation,
+  createStatementBuilders,
   createEqualityCheck,
+  createStaticAccess,
   createNewInstance,
-  capitalize
+  createConstructorArguments,
+  capitalize,
+  uncapitalize
 } from '../utils/ast-helpers';
 
+/**
+ * Name of the method equals() asks whether the other object accepts the comparison.
+ */
+const CAN_EQUAL_METHOD = 'canEqual';
+
+/**
+ * Gets the properties rendered by toString(), honoring @ToString({ exclude }),
+ * @ToString.Exclude and, with onlyExplicitlyIncluded, @ToString.Include.
+ */
+export function getToStringProperties(plan: TransformationPlan): PropertyInfo[] {
+  return filterIncludedProperties(plan, 'ToString', p => p.toStringInclusion);
+}
+
+/**
+ * Gets the properties compared by equals() and hashCode(), honoring @Equals({ exclude }),
+ * @Equals.Exclude and, with onlyExplicitlyIncluded, @Equals.Include.
+ */
+export function getEqualsProperties(plan: TransformationPlan): PropertyInfo[] {
+  return filterIncludedProperties(plan, 'Equals', p => p.equalsInclusion);
+}
+
+function filterIncludedProperties(
+  plan: TransformationPlan,
+  decoratorName: 'ToString' | 'Equals',
+  getInclusion: (property: PropertyInfo) => FieldInclusion | undefined
+): PropertyInfo[] {
+  const options = plan.decoratorOptions[decoratorName];
+  const exclude = options?.exclude as string[] | undefined;
+  const onlyExplicitlyIncluded = options?.onlyExplicitlyIncluded === true;
+
+  return plan.properties.filter(p => {
+    const inclusion = getInclusion(p);
+    if (exclude?.includes(p.name) || inclusion === 'exclude') {
+      return false;
+    }
+    return !onlyExplicitlyIncluded || inclusion === 'include';
+  });
+}
+
+/**
+ * Gets the name of a private static helper such as _hash(): the given name,
+ * with '$' appended until no member of the class uses it, as a user-written
+ * member of that name would take the helper's place.
+ */
+export function getHelperMethodName(plan: TransformationPlan, name: string): string {
+  const taken = new Set(plan.properties.map(p => p.name));
+  for (const member of plan.classDeclaration.members) {
+    if (member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+      taken.add(member.name.text);
+    }
+  }
+
+  let helperName = name;
+  while (taken.has(helperName)) {
+    helperName += '$';
+  }
+  return helperName;
+}
+
+/**
+ * Refers to a helper of the planned class: `User._hash`
+ */
+function createHelperAccess(factory: ts.NodeFactory, plan: TransformationPlan, name: string): ts.Expression {
+  return createStaticAccess(factory, plan.className, getHelperMethodName(plan, name));
+}
+
+/**
+ * Mask rendered for @Sensitive fields unless the decorator sets its own.
+ */
+const DEFAULT_MASK = '****';
+
+/**
+ * Gets how toString() renders values, e.g. @ToString({ format: 'json' }).
+ */
+export function getToStringStyle(plan: TransformationPlan): ToStringStyle {
+  const options = plan.decoratorOptions.ToString ?? {};
+  const format = (options.format as ToStringFormat | undefined) ?? 'lombok';
+
+  return {
+    format,
+    quoteStrings: format === 'json' || options.quoteStrings === true,
+    includeFieldNames: format === 'json' || options.includeFieldNames !== false
+  };
+}
+
+/**
+ * Renders a field in generated string output: its value, through the format
+ * method unless it can be interpolated as is, or for @Sensitive fields the mask.
+ */
+export function createFieldDisplayValue(
+  factory: ts.NodeFactory,
+  property: PropertyInfo,
+  style: ToStringStyle,
+  format: ts.Expression
+): TemplatePart | TemplatePart[] {
+  const masked = createMaskedValue(factory, property);
+  if (masked && style.format === 'json') {
+    // "****", or JSON.stringify('****' + String(this.card ?? '').slice(-4))
+    return masked.length === 1
+      ? JSON.stringify(masked[0])
+      : factory.createCallExpression(
+          factory.createPropertyAccessExpression(factory.createIdentifier('JSON'), 'stringify'),
+          undefined,
+          [joinMaskedValue(factory, masked)]
+        );
+  }
+  if (masked) {
+    return masked;
+  }
+
+  const value = factory.createPropertyAccessExpression(factory.createThis(), property.name);
+  return usesFormatFunction(property, style)
+    ? factory.createCallExpression(format, undefined, [value])
+    : value;
+}
+
+/**
+ * Gets the text shown for a @Sensitive field: the mask, followed by the
+ * last `showLast` characters of the value. Undefined for other fields.
+ */
+function createMaskedValue(
+  factory: ts.NodeFactory,
+  property: PropertyInfo
+): [string] | [string, ts.Expression] | undefined {
+  const sensitive = property.decoratorOptions.Sensitive;
+  if (!sensitive) {
+    return undefined;
+  }
+
+  const mask = (sensitive.mask as string | undefined) ?? DEFAULT_MASK;
+  const showLast = sensitive.showLast as number | undefined;
+  if (!showLast) {
+    return [mask];
+  }
+
+  // String(this.card ?? '').slice(-4)
+  const value = factory.createPropertyAccessExpression(factory.createThis(), property.name);
+  const visible = factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createCallExpression(factory.createIdentifier('String'), undefined, [
+        factory.createBinaryExpression(
+          value,
+          ts.SyntaxKind.QuestionQuestionToken,
+          factory.createStringLiteral('')
+        )
+      ]),
+      'slice'
+    ),
+    undefined,
+    [factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, factory.createNumericLiteral(showLast))]
+  );
+  return [mask, visible];
+}
+
+/**
+ * Turns masked text into a single string expression: '****' + visible
+ */
+function joinMaskedValue(factory: ts.NodeFactory, masked: [string] | [string, ts.Expression]): ts.Expression {
+  const mask = factory.createStringLiteral(masked[0]);
+  return masked.length === 1 ? mask : factory.createAdd(mask, masked[1]);
+}
+
+/**
+ * Whether a generated toString() or equals()/hashCode() folds in the superclass's,
+ * e.g. @ToString({ callSuper: true }); @Data({ callSuper: true }) applies to both.
+ */
+export function callsSuper(plan: TransformationPlan, decoratorName: 'ToString' | 'Equals'): boolean {
+  const callSuper = plan.decoratorOptions[decoratorName]?.callSuper ?? plan.decoratorOptions.Data?.callSuper;
+  return callSuper === true;
+}
+
+/**
+ * Creates a call to the superclass's implementation of a method: super.name()
+ */
+function createSuperCall(factory: ts.NodeFactory, name: string, args: ts.Expression[] = []): ts.CallExpression {
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(factory.createSuper(), name),
+    undefined,
+    args
+  );
+}
+
+/**
+ * Gets the access level of a generated accessor, e.g. @Setter({ access: 'protected' }).
+ * Property-level options override class-level ones; the default is public.
+ */
+export function getAccessLevel(
+  plan: TransformationPlan,
+  property: PropertyInfo,
+  decoratorName: string
+): AccessLevel {
+  const access = getPropertyOptions(plan, property, decoratorName).access as AccessLevel | undefined;
+  return access ?? 'public';
+}
+
 /**
  * Generates the toString() method.
  *
@@ -17,19 +240,61 @@ import {
  * toString(): string {
  *   return `User(id=${this.id}, name=${this.name})`;
  * }
+ *
+ * With callSuper the superclass's toString() comes first: `Manager(super=${super.toString()}, ...)`.
+ * Fields that are not primitives are rendered by the _format() method,
+ * see generateFormatMembers(); @ToString({ format }) picks the layout. Such
+ * fields may lead back to this object, so it is kept on the `rendering`
+ * stack meanwhile and renders as <cycle> when met again.
  */
 export function generateToString(
   factory: ts.NodeFactory,
   plan: TransformationPlan
 ): ts.MethodDeclaration {
-  const fieldNames = plan.properties.map(p => p.name);
-  const templateLiteral = createToStringTemplateLiteral(factory, plan.className, fieldNames);
+  const style = getToStringStyle(plan);
+  const properties = getToStringProperties(plan);
+  const guardCycles = properties.some(p => !p.decoratorOptions.Sensitive && usesFormatFunction(p, style));
+  const { id, call, returnIf, pushed } = createStatementBuilders(factory);
+  const statements: ts.Statement[] = [];
 
-  const body = factory.createBlock(
-    [createReturnStatement(factory, templateLiteral)],
-    true
+  const entries: Array<[string, TemplatePart | TemplatePart[]]> = properties.map(p => [
+    p.name,
+    createFieldDisplayValue(factory, p, style, createHelperAccess(factory, plan, FORMAT_METHOD))
+  ]);
+  if (callsSuper(plan, 'ToString')) {
+    entries.unshift(['super', guardCycles ? id('superString') : createSuperCall(factory, 'toString')]);
+  }
+  const templateLiteral = createToStringTemplateLiteral(
+    factory,
+    plan.className,
+    entries,
+    style.format,
+    style.includeFieldNames
   );
 
+  if (guardCycles) {
+    const rendering = id(RENDERING_STACK);
+    statements.push(
+      generateRenderingStack(factory),
+      returnIf(call(rendering, 'includes', [factory.createThis()]), factory.createStringLiteral(CYCLE_MARKER))
+    );
+    // super.toString() checks the same object, so it runs before this one is pushed
+    if (callsSuper(plan, 'ToString')) {
+      statements.push(factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration('superString', undefined, undefined, createSuperCall(factory, 'toString'))],
+          ts.NodeFlags.Const
+        )
+      ));
+    }
+    statements.push(...pushed(rendering, factory.createThis(), [createReturnStatement(factory, templateLiteral)]));
+  } else {
+    statements.push(createReturnStatement(factory, templateLiteral));
+  }
+
+  const body = factory.createBlock(statements, true);
+
   return createMethodDeclaration(
     factory,
     'toString',
@@ -39,6 +304,146 @@ export function generateToString(
   );
 }
 
+/**
+ * Key of the symbol Node's util.inspect() and console.log() look up on objects.
+ */
+const INSPECT_CUSTOM_KEY = 'nodejs.util.inspect.custom';
+
+/**
+ * Generates the members that make Node and debuggers show an instance
+ * with its class name: the util.inspect.custom method and a
+ * Symbol.toStringTag getter.
+ *
+ * Example output:
+ * [Symbol.for('nodejs.util.inspect.custom')](depth: number, options: any, inspect = String): string {
+ *   if (depth < 0) return options.stylize('[User]', 'special');
+ *   const nested = Object.assign({}, options, { depth: options.depth == null ? null : options.depth - 1 });
+ *   return `User { id: ${inspect(this.id, nested)}, password: ${inspect('****', nested)} }`;
+ * }
+ * get [Symbol.toStringTag](): string { return 'User'; }
+ *
+ * Fields are picked and masked as in toString(); their values are
+ * rendered by Node's own inspect(), which gets them colored and nested.
+ */
+export function generateInspectMembers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.ClassElement[] {
+  return [generateInspectMethod(factory, plan), generateToStringTag(factory, plan)];
+}
+
+function generateInspectMethod(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.MethodDeclaration {
+  const { id, call, returnIf, pushed } = createStatementBuilders(factory);
+  const properties = getToStringProperties(plan);
+  const guardCycles = properties.some(p => !p.decoratorOptions.Sensitive && !hasPrimitiveType(p));
+  const depth = id('depth');
+  const options = id('options');
+  const nested = id('nested');
+  const stylize = (text: string) =>
+    call(options, 'stylize', [factory.createStringLiteral(text), factory.createStringLiteral('special')]);
+  const parameter = (name: string, type: ts.TypeNode, initializer?: ts.Expression) =>
+    factory.createParameterDeclaration(undefined, undefined, name, undefined, type, initializer);
+
+  const entries: Array<[string, ts.Expression]> = properties.map(p => {
+    const masked = createMaskedValue(factory, p);
+    const value = masked
+      ? joinMaskedValue(factory, masked)
+      : factory.createPropertyAccessExpression(factory.createThis(), p.name);
+    return [p.name, factory.createCallExpression(id('inspect'), undefined, [value, nested])];
+  });
+  const result = createReturnStatement(
+    factory,
+    createInspectTemplateLiteral(factory, plan.className, entries)
+  );
+
+  // Nested values are inspected one level deeper, as Node does for plain objects
+  const optionsDepth = factory.createPropertyAccessExpression(options, 'depth');
+  const nestedOptions = call(id('Object'), 'assign', [
+    factory.createObjectLiteralExpression(),
+    options,
+    factory.createObjectLiteralExpression([
+      factory.createPropertyAssignment('depth', factory.createConditionalExpression(
+        factory.createEquality(optionsDepth, factory.createNull()),
+        undefined,
+        factory.createNull(),
+        undefined,
+        factory.createSubtract(optionsDepth, factory.createNumericLiteral(1))
+      ))
+    ])
+  ]);
+
+  const statements: ts.Statement[] = [
+    returnIf(factory.createLessThan(depth, factory.createNumericLiteral(0)), stylize(`[${plan.className}]`))
+  ];
+  if (entries.length > 0) {
+    statements.push(factory.createVariableStatement(
+      undefined,
+      factory.createVariableDeclarationList(
+        [factory.createVariableDeclaration(nested, undefined, undefined, nestedOptions)],
+        ts.NodeFlags.Const
+      )
+    ));
+  }
+  if (guardCycles) {
+    // Shares the stack of toString(), which may be rendering this object
+    const rendering = id(RENDERING_STACK);
+    statements.push(
+      generateRenderingStack(factory),
+      returnIf(call(rendering, 'includes', [factory.createThis()]), stylize('[Circular]')),
+      ...pushed(rendering, factory.createThis(), [result])
+    );
+  } else {
+    statements.push(result);
+  }
+
+  // Node passes its inspect() since 16.14; older versions fall back to String()
+  return factory.createMethodDeclaration(
+    undefined,
+    undefined,
+    factory.createComputedPropertyName(
+      call(id('Symbol'), 'for', [factory.createStringLiteral(INSPECT_CUSTOM_KEY)])
+    ),
+    undefined,
+    undefined,
+    [
+      parameter('depth', factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword)),
+      parameter('options', factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword)),
+      parameter(
+        'inspect',
+        factory.createFunctionTypeNode(
+          undefined,
+          [
+            parameter('value', factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)),
+            parameter('options', factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword))
+          ],
+          factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword)
+        ),
+        id('String')
+      )
+    ],
+    factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+    factory.createBlock(statements, true)
+  );
+}
+
+function generateToStringTag(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.GetAccessorDeclaration {
+  return factory.createGetAccessorDeclaration(
+    undefined,
+    factory.createComputedPropertyName(
+      factory.createPropertyAccessExpression(factory.createIdentifier('Symbol'), 'toStringTag')
+    ),
+    [],
+    factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+    factory.createBlock([createReturnStatement(factory, factory.createStringLiteral(plan.className))], true)
+  );
+}
+
 /**
  * Generates the equals() method.
  *
@@ -47,15 +452,23 @@ export function generateToString(
  *   if (other == null) return false;
  *   if (this === other) return true;
  *   if (!(other instanceof User)) return false;
- *   return this.id === other.id && this.name === other.name;
+ *   if (!other.canEqual(this)) return false;
+ *   return this.id === other.id && User._deepEquals(this.tags, other.tags);
  * }
+ *
+ * Fields that are not primitives are compared with the _deepEquals() method,
+ * see generateDeepEqualsMembers(), unless @Equals({ deep: false }).
+ * canEqual() keeps the comparison symmetric when a subclass adds fields;
+ * with callSuper the superclass's equals() must hold as well.
  */
 export function generateEquals(
   factory: ts.NodeFactory,
   plan: TransformationPlan
 ): ts.MethodDeclaration {
   const otherParam = 'other';
-  const fieldNames = plan.properties.map(p => p.name);
+  const properties = getEqualsProperties(plan);
+  const fieldNames = properties.map(p => p.name);
+  const deepFieldNames = properties.filter(p => usesDeepEquality(plan, p)).map(p => p.name);
 
   const statements: ts.Statement[] = [
     // if (other == null) return false;
@@ -93,10 +506,34 @@ export function generateEquals(
       factory.createReturnStatement(factory.createFalse())
     ),
 
+    // if (!other.canEqual(this)) return false;
+    factory.createIfStatement(
+      factory.createPrefixUnaryExpression(
+        ts.SyntaxKind.ExclamationToken,
+        factory.createCallExpression(
+          factory.createPropertyAccessExpression(factory.createIdentifier(otherParam), CAN_EQUAL_METHOD),
+          undefined,
+          [factory.createThis()]
+        )
+      ),
+      factory.createReturnStatement(factory.createFalse())
+    ),
+
+    // if (!super.equals(other)) return false;
+    ...(callsSuper(plan, 'Equals')
+      ? [factory.createIfStatement(
+          factory.createPrefixUnaryExpression(
+            ts.SyntaxKind.ExclamationToken,
+            createSuperCall(factory, 'equals', [factory.createIdentifier(otherParam)])
+          ),
+          factory.createReturnStatement(factory.createFalse())
+        )]
+      : []),
+
     // return this.field === other.field && ...;
     createReturnStatement(
       factory,
-      createEqualityCheck(factory, fieldNames, otherParam)
+      createEqualityCheck(factory, fieldNames, otherParam, deepFieldNames, createHelperAccess(factory, plan, DEEP_EQUALS_METHOD))
     )
   ];
 
@@ -121,32 +558,138 @@ export function generateEquals(
 }
 
 /**
- * Generates the hashCode() method.
+ * Generates the canEqual() method used by equals().
  *
  * Example output:
- * hashCode(): number {
- *   return ((this.id * 31) + String(this.name).length) | 0;
+ * protected canEqual(other: unknown): boolean {
+ *   return other instanceof User;
  * }
  */
-export function generateHashCode(
+export function generateCanEqual(
   factory: ts.NodeFactory,
   plan: TransformationPlan
 ): ts.MethodDeclaration {
-  const fieldNames = plan.properties.map(p => p.name);
-  const hashExpression = createHashCodeComputation(factory, fieldNames);
+  const parameter = factory.createParameterDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier('other'),
+    undefined,
+    factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword),
+    undefined
+  );
 
   const body = factory.createBlock(
-    [createReturnStatement(factory, hashExpression)],
+    [createReturnStatement(
+      factory,
+      factory.createBinaryExpression(
+        factory.createIdentifier('other'),
+        ts.SyntaxKind.InstanceOfKeyword,
+        factory.createIdentifier(plan.className)
+      )
+    )],
     true
   );
 
+  return createMethodDeclaration(
+    factory,
+    CAN_EQUAL_METHOD,
+    [parameter],
+    factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword),
+    body,
+    createAccessModifiers(factory, 'protected')
+  );
+}
+
+/**
+ * Generates the hashCode() method.
+ *
+ * Example output:
+ * hashCode(): number {
+ *   return User._hash([this.id, this.name]);
+ * }
+ *
+ * The hash method, see generateHashMembers(), follows the comparison of
+ * equals(), so that equal instances always have equal hash codes. With
+ * callSuper the superclass's hashCode() is hashed first.
+ */
+export function generateHashCode(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.MethodDeclaration {
+  const values = getHashedValues(factory, plan);
+  const hashExpression = createHashCodeComputation(factory, values, createHelperAccess(factory, plan, HASH_METHOD));
+
   return createMethodDeclaration(
     factory,
     'hashCode',
     [],
     factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword),
-    body
+    factory.createBlock([createReturnStatement(factory, hashExpression)], true)
+  );
+}
+
+/**
+ * Generates the private static _format() method toString() calls, if it
+ * formats any field and the class does not declare its own toString().
+ */
+export function generateFormatMembers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.MethodDeclaration[] {
+  const style = getToStringStyle(plan);
+  const formatsFields = getToStringProperties(plan).some(p => !p.decoratorOptions.Sensitive && usesFormatFunction(p, style));
+  if (!formatsFields || hasMethod(plan.classDeclaration, 'toString')) {
+    return [];
+  }
+
+  return [generateFormatMethod(factory, plan.className, getHelperMethodName(plan, FORMAT_METHOD), style)];
+}
+
+/**
+ * Generates the private static _deepEquals() method equals() calls, if it
+ * compares any field structurally and the class does not declare its own equals().
+ */
+export function generateDeepEqualsMembers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.MethodDeclaration[] {
+  const comparesDeeply = getEqualsProperties(plan).some(p => usesDeepEquality(plan, p));
+  if (!comparesDeeply || hasMethod(plan.classDeclaration, 'equals')) {
+    return [];
+  }
+
+  return [generateDeepEqualsMethod(factory, plan.className, getHelperMethodName(plan, DEEP_EQUALS_METHOD))];
+}
+
+/**
+ * Generates the private static _hash() method hashCode() calls, if it hashes
+ * any value and the class does not declare its own hashCode(). Fields that
+ * are not primitives may lead back to the object being hashed, so they make
+ * it guard against cycles.
+ */
+export function generateHashMembers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.MethodDeclaration[] {
+  if (getHashedValues(factory, plan).length === 0 || hasMethod(plan.classDeclaration, 'hashCode')) {
+    return [];
+  }
+
+  const guardCycles = getEqualsProperties(plan).some(p => !hasPrimitiveType(p));
+  return [generateHashMethod(factory, plan.className, getHelperMethodName(plan, HASH_METHOD), guardCycles)];
+}
+
+/**
+ * Gets the values hashCode() combines: super.hashCode() with callSuper, then the fields.
+ */
+function getHashedValues(factory: ts.NodeFactory, plan: TransformationPlan): ts.Expression[] {
+  const values: ts.Expression[] = getEqualsProperties(plan).map(p =>
+    factory.createPropertyAccessExpression(factory.createThis(), p.name)
   );
+  if (callsSuper(plan, 'Equals')) {
+    values.unshift(createSuperCall(factory, 'hashCode'));
+  }
+  return values;
 }
 
 /**
@@ -161,7 +704,24 @@ export function generateWithMethods(
   factory: ts.NodeFactory,
   plan: TransformationPlan
 ): ts.MethodDeclaration[] {
-  return plan.properties.map(prop => generateWithMethod(factory, plan, prop.name, prop.type));
+  return getWithProperties(plan).map(prop => generateWithMethod(factory, plan, prop));
+}
+
+/**
+ * Gets the properties that receive a withX() method.
+ */
+export function getWithProperties(plan: TransformationPlan): PropertyInfo[] {
+  // A copy can only carry a new value that the constructor takes
+  const argumentNames = getConstructorArgumentNames(plan);
+  if (!argumentNames || getUnforwardableSuperParameters(plan).length > 0) {
+    return [];
+  }
+
+  return plan.properties.filter(p =>
+    (plan.generateWithMethods || p.hasWith) &&
+    getAccessLevel(plan, p, 'With') !== 'none' &&
+    argumentNames.includes(p.name)
+  );
 }
 
 /**
@@ -170,19 +730,24 @@ export function generateWithMethods(
 function generateWithMethod(
   factory: ts.NodeFactory,
   plan: TransformationPlan,
-  propertyName: string,
-  propertyType?: ts.TypeNode
+  property: PropertyInfo
 ): ts.MethodDeclaration {
-  const methodName = `with${capitalize(propertyName)}`;
+  const parameterName = getAccessorBaseName(plan, property);
 
-  // Constructor arguments: use this.field for all except the one being changed
-  const constructorArgs = plan.properties.map(p =>
-    p.name === propertyName
-      ? factory.createIdentifier(propertyName)
-      : factory.createPropertyAccessExpression(
-          factory.createThis(),
-          factory.createIdentifier(p.name)
-        )
+  // Constructor arguments: use this.field for all except the one being changed;
+  // in a derived class the base constructor's parameters come first
+  const constructorArgs = createConstructorArguments(
+    factory,
+    plan.constructorStyle,
+    (getConstructorArgumentNames(plan) ?? []).map(name => [
+      name,
+      name === property.name
+        ? factory.createIdentifier(parameterName)
+        : factory.createPropertyAccessExpression(
+            factory.createThis(),
+            factory.createIdentifier(name)
+          )
+    ])
   );
 
   const newInstance = createNewInstance(factory, plan.className, constructorArgs);
@@ -192,24 +757,155 @@ function generateWithMethod(
     true
   );
 
-  const parameter = factory.createParameterDeclaration(
-    undefined,
-    undefined,
-    factory.createIdentifier(propertyName),
-    undefined,
-    propertyType,
-    undefined
-  );
-
   return createMethodDeclaration(
     factory,
-    methodName,
-    [parameter],
+    getWithMethodName(plan, property),
+    [createValueParameter(factory, parameterName, property.type)],
     factory.createTypeReferenceNode(factory.createIdentifier(plan.className), undefined),
-    body
+    body,
+    createAccessModifiers(factory, getAccessLevel(plan, property, 'With'))
+  );
+}
+
+/**
+ * Naming and typing style of generated accessors, set with @Accessors.
+ */
+export interface AccessorStyle {
+  /** Accessors are named after the field: name() and name(value) */
+  fluent: boolean;
+  /** Setters return this */
+  chain: boolean;
+  /** Field name prefixes stripped when naming accessors */
+  prefix: string[];
+  /** Boolean getters are named isX() instead of getX() */
+  isPrefix: boolean;
+}
+
+/**
+ * Gets the accessor style of a property; property-level @Accessors override
+ * class-level ones. As in Lombok, fluent accessors chain unless told otherwise.
+ * Native accessors treat '_' as the backing field prefix by default.
+ */
+export function getAccessorStyle(plan: TransformationPlan, property: PropertyInfo): AccessorStyle {
+  const options = getPropertyOptions(plan, property, 'Accessors');
+  const fluent = options.fluent === true;
+  const isNative = usesNativeAccessor(plan, property, 'Getter') || usesNativeAccessor(plan, property, 'Setter');
+  return {
+    fluent,
+    chain: (options.chain as boolean | undefined) ?? fluent,
+    prefix: (options.prefix as string[] | undefined) ?? (isNative ? ['_'] : []),
+    isPrefix: options.isPrefix !== false
+  };
+}
+
+/**
+ * Whether a property's getter or setter is emitted as a native `get name()` /
+ * `set name(value)` accessor, e.g. @Getter({ native: true }) or @Data({ native: true }).
+ */
+export function usesNativeAccessor(
+  plan: TransformationPlan,
+  property: PropertyInfo,
+  decoratorName: 'Getter' | 'Setter'
+): boolean {
+  const native = getPropertyOptions(plan, property, decoratorName).native as boolean | undefined;
+  return native ?? plan.decoratorOptions.Data?.native === true;
+}
+
+/**
+ * Gets the name accessors are derived from: the field name without the first
+ * matching prefix, e.g. '_name' or 'm_name' → 'name', 'mName' → 'name'.
+ * A prefix ending in a letter only matches when a non-lowercase character follows.
+ */
+export function getAccessorBaseName(plan: TransformationPlan, property: PropertyInfo): string {
+  for (const prefix of getAccessorStyle(plan, property).prefix) {
+    const rest = property.name.slice(prefix.length);
+    if (!prefix || !property.name.startsWith(prefix) || rest.length === 0) {
+      continue;
+    }
+    if (/[a-zA-Z]$/.test(prefix) && /^[a-z]/.test(rest)) {
+      continue;
+    }
+    return uncapitalize(rest);
+  }
+  return property.name;
+}
+
+/**
+ * Gets the getter name of a property: getName(), isActive() for booleans,
+ * or name when fluent or native.
+ *
+ * A boolean already named like '_isActive' keeps its name: isActive(), not isIsActive().
+ * When the isX() name would equal the field's own name, getX() is used instead.
+ */
+export function getGetterName(plan: TransformationPlan, property: PropertyInfo): string {
+  const baseName = getAccessorBaseName(plan, property);
+  const style = getAccessorStyle(plan, property);
+  if (usesNativeAccessor(plan, property, 'Getter') || style.fluent) {
+    return baseName;
+  }
+
+  if (property.isBoolean && style.isPrefix) {
+    const isName = /^is[A-Z]/.test(baseName) ? baseName : `is${capitalize(baseName)}`;
+    if (isName !== property.name) {
+      return isName;
+    }
+  }
+
+  return `get${capitalize(baseName)}`;
+}
+
+/**
+ * Gets the setter name of a property: setName(), or name when fluent or native.
+ */
+export function getSetterName(plan: TransformationPlan, property: PropertyInfo): string {
+  const baseName = getAccessorBaseName(plan, property);
+  const bare = usesNativeAccessor(plan, property, 'Setter') || getAccessorStyle(plan, property).fluent;
+  return bare ? baseName : `set${capitalize(baseName)}`;
+}
+
+/**
+ * Gets the with-method name of a property: withName().
+ */
+export function getWithMethodName(plan: TransformationPlan, property: PropertyInfo): string {
+  return `with${capitalize(getAccessorBaseName(plan, property))}`;
+}
+
+/**
+ * Gets the properties that receive a getter: all of them under a class-level
+ * decorator, otherwise the ones decorated with @Getter. A fluent or native
+ * getter that would share the field's own name is not generated.
+ */
+export function getGetterProperties(plan: TransformationPlan): PropertyInfo[] {
+  return plan.properties.filter(p =>
+    (plan.generateGetters || p.hasGetter) &&
+    getAccessLevel(plan, p, 'Getter') !== 'none' &&
+    getGetterName(plan, p) !== p.name
+  );
+}
+
+/**
+ * Gets the properties that receive a setter; readonly properties never do.
+ */
+export function getSetterProperties(plan: TransformationPlan): PropertyInfo[] {
+  return plan.properties.filter(p =>
+    (plan.generateSetters || p.hasSetter) &&
+    !p.isReadonly &&
+    getAccessLevel(plan, p, 'Setter') !== 'none' &&
+    getSetterName(plan, p) !== p.name
   );
 }
 
+/**
+ * Whether a property's fluent getter and setter are merged into one overloaded method.
+ */
+function hasCombinedAccessor(plan: TransformationPlan, property: PropertyInfo): boolean {
+  return getAccessorStyle(plan, property).fluent &&
+    !usesNativeAccessor(plan, property, 'Getter') &&
+    !usesNativeAccessor(plan, property, 'Setter') &&
+    getGetterProperties(plan).includes(property) &&
+    getSetterProperties(plan).includes(property);
+}
+
 /**
  * Generates getter methods for all properties.
  *
@@ -217,32 +913,136 @@ function generateWithMethod(
  * getName(): string {
  *   return this.name;
  * }
+ *
+ * Fluent properties that also get a setter receive a single overloaded
+ * method instead, see generateCombinedAccessor(). Native getters are
+ * `get name(): string` accessors. Lazy getters come last, see generateLazyGetter().
  */
 export function generateGetters(
   factory: ts.NodeFactory,
   plan: TransformationPlan
-): ts.MethodDeclaration[] {
-  return plan.properties.map(prop => {
-    const methodName = `get${capitalize(prop.name)}`;
+): ts.ClassElement[] {
+  const lazyGetters = plan.lazyProperties
+    .filter(prop => getAccessLevel(plan, prop, 'Getter') !== 'none')
+    .flatMap(prop => generateLazyGetter(factory, plan, prop));
+
+  return getGetterProperties(plan).flatMap((prop): ts.ClassElement[] => {
+    if (hasCombinedAccessor(plan, prop)) {
+      return generateCombinedAccessor(factory, plan, prop);
+    }
 
     const body = factory.createBlock(
-      [factory.createReturnStatement(
-        factory.createPropertyAccessExpression(
-          factory.createThis(),
-          factory.createIdentifier(prop.name)
-        )
-      )],
+      [factory.createReturnStatement(createFieldAccess(factory, prop))],
       true
     );
 
-    return createMethodDeclaration(
+    if (usesNativeAccessor(plan, prop, 'Getter')) {
+      return [factory.createGetAccessorDeclaration(
+        createAccessModifiers(factory, getAccessLevel(plan, prop, 'Getter')),
+        factory.createIdentifier(getGetterName(plan, prop)),
+        [],
+        prop.type,
+        body
+      )];
+    }
+
+    return [createMethodDeclaration(
       factory,
-      methodName,
+      getGetterName(plan, prop),
       [],
       prop.type,
-      body
+      body,
+      createAccessModifiers(factory, getAccessLevel(plan, prop, 'Getter'))
+    )];
+  }).concat(lazyGetters);
+}
+
+/**
+ * Generates a getter that computes the field initializer on first access.
+ * Values are cached in a static WeakMap keyed by instance, so frozen
+ * instances (@Record, @Value) can be cached as well.
+ *
+ * Example output for `@Getter({ lazy: true }) total: number = this.sum();`:
+ * private static readonly _lazyTotal = new WeakMap<object, unknown>();
+ * getTotal(): number {
+ *   if (!Order._lazyTotal.has(this)) {
+ *     Order._lazyTotal.set(this, this.sum());
+ *   }
+ *   return Order._lazyTotal.get(this) as number;
+ * }
+ */
+function generateLazyGetter(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  property: PropertyInfo
+): ts.ClassElement[] {
+  const cacheName = `_lazy${capitalize(property.name)}`;
+  const callCache = (method: string, args: ts.Expression[]) =>
+    factory.createCallExpression(
+      factory.createPropertyAccessExpression(
+        factory.createPropertyAccessExpression(
+          factory.createIdentifier(plan.className),
+          factory.createIdentifier(cacheName)
+        ),
+        factory.createIdentifier(method)
+      ),
+      undefined,
+      args
     );
-  });
+
+  const cacheField = factory.createPropertyDeclaration(
+    [
+      factory.createModifier(ts.SyntaxKind.PrivateKeyword),
+      factory.createModifier(ts.SyntaxKind.StaticKeyword),
+      factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)
+    ],
+    factory.createIdentifier(cacheName),
+    undefined,
+    undefined,
+    factory.createNewExpression(
+      factory.createIdentifier('WeakMap'),
+      [
+        factory.createKeywordTypeNode(ts.SyntaxKind.ObjectKeyword),
+        factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)
+      ],
+      []
+    )
+  );
+
+  const cached = callCache('get', [factory.createThis()]);
+  const body = factory.createBlock(
+    [
+      factory.createIfStatement(
+        factory.createPrefixUnaryExpression(
+          ts.SyntaxKind.ExclamationToken,
+          callCache('has', [factory.createThis()])
+        ),
+        factory.createBlock(
+          [factory.createExpressionStatement(
+            callCache('set', [factory.createThis(), property.initializer!])
+          )],
+          true
+        )
+      ),
+      factory.createReturnStatement(
+        property.type ? factory.createAsExpression(cached, property.type) : cached
+      )
+    ],
+    true
+  );
+
+  const modifiers = createAccessModifiers(factory, getAccessLevel(plan, property, 'Getter'));
+  const getter = usesNativeAccessor(plan, property, 'Getter')
+    ? factory.createGetAccessorDeclaration(
+        modifiers,
+        factory.createIdentifier(getGetterName(plan, property)),
+        [],
+        property.type,
+        body
+      )
+    : createMethodDeclaration(factory, getGetterName(plan, property), [], property.type, body, modifiers);
+
+  return [cacheField, getter];
 }
 
 /**
@@ -252,61 +1052,201 @@ export function generateGetters(
  * setName(name: string): void {
  *   this.name = name;
  * }
+ *
+ * Chained setters return `this` instead; native setters are
+ * `set name(name: string)` accessors. @NonNull properties reject null values.
  */
 export function generateSetters(
   factory: ts.NodeFactory,
   plan: TransformationPlan
-): ts.MethodDeclaration[] {
-  return plan.properties
-    .filter(prop => !prop.isReadonly)
-    .map(prop => {
-      const methodName = `set${capitalize(prop.name)}`;
+): ts.ClassElement[] {
+  return getSetterProperties(plan)
+    .filter(prop => !hasCombinedAccessor(plan, prop))
+    .map((prop): ts.ClassElement => {
+      const parameterName = getAccessorBaseName(plan, prop);
+      const chain = getAccessorStyle(plan, prop).chain;
+      const modifiers = createAccessModifiers(factory, getAccessLevel(plan, prop, 'Setter'));
 
-      const parameter = factory.createParameterDeclaration(
-        undefined,
-        undefined,
-        factory.createIdentifier(prop.name),
-        undefined,
-        prop.type,
-        undefined
-      );
+      const statements: ts.Statement[] = [];
+      if (prop.isNonNull) {
+        statements.push(generateNonNullValidation(factory, parameterName));
+      }
+      statements.push(createFieldAssignment(factory, prop, parameterName));
 
-      const body = factory.createBlock(
-        [factory.createExpressionStatement(
-          factory.createBinaryExpression(
-            factory.createPropertyAccessExpression(
-              factory.createThis(),
-              factory.createIdentifier(prop.name)
-            ),
-            factory.createToken(ts.SyntaxKind.EqualsToken),
-            factory.createIdentifier(prop.name)
-          )
-        )],
-        true
-      );
+      if (usesNativeAccessor(plan, prop, 'Setter')) {
+        return factory.createSetAccessorDeclaration(
+          modifiers,
+          factory.createIdentifier(getSetterName(plan, prop)),
+          [createValueParameter(factory, parameterName, prop.type)],
+          factory.createBlock(statements, true)
+        );
+      }
+
+      if (chain) {
+        statements.push(factory.createReturnStatement(factory.createThis()));
+      }
 
       return createMethodDeclaration(
         factory,
-        methodName,
-        [parameter],
-        factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword),
-        body
+        getSetterName(plan, prop),
+        [createValueParameter(factory, parameterName, prop.type)],
+        chain ? factory.createThisTypeNode() : factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword),
+        factory.createBlock(statements, true),
+        modifiers
       );
     });
 }
 
+/**
+ * Generates the overloaded fluent accessor for a property with getter and setter.
+ *
+ * Example output for property '_name':
+ * name(): string;
+ * name(name: string): this;
+ * name(name?: string): string | this {
+ *   if (arguments.length === 0) {
+ *     return this._name;
+ *   }
+ *   this._name = name as string;
+ *   return this;
+ * }
+ *
+ * The getter's access level applies to the whole method.
+ */
+function generateCombinedAccessor(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  property: PropertyInfo
+): ts.MethodDeclaration[] {
+  const methodName = getGetterName(plan, property);
+  const parameterName = getAccessorBaseName(plan, property);
+  const chain = getAccessorStyle(plan, property).chain;
+  const modifiers = createAccessModifiers(factory, getAccessLevel(plan, property, 'Getter'));
+  const setterReturnType = chain
+    ? factory.createThisTypeNode()
+    : factory.createKeywordTypeNode(ts.SyntaxKind.VoidKeyword);
+
+  const createSignature = (
+    parameters: ts.ParameterDeclaration[],
+    returnType: ts.TypeNode | undefined,
+    body: ts.Block | undefined
+  ) => factory.createMethodDeclaration(
+    modifiers,
+    undefined,
+    factory.createIdentifier(methodName),
+    undefined,
+    undefined,
+    parameters,
+    returnType,
+    body
+  );
+
+  const value: ts.Expression = property.type
+    ? factory.createAsExpression(factory.createIdentifier(parameterName), property.type)
+    : factory.createIdentifier(parameterName);
+
+  const body = factory.createBlock(
+    [
+      factory.createIfStatement(
+        factory.createStrictEquality(
+          factory.createPropertyAccessExpression(
+            factory.createIdentifier('arguments'),
+            factory.createIdentifier('length')
+          ),
+          factory.createNumericLiteral(0)
+        ),
+        factory.createBlock([factory.createReturnStatement(createFieldAccess(factory, property))], true)
+      ),
+      ...(property.isNonNull ? [generateNonNullValidation(factory, parameterName)] : []),
+      factory.createExpressionStatement(
+        factory.createAssignment(createFieldAccess(factory, property), value)
+      ),
+      factory.createReturnStatement(chain ? factory.createThis() : undefined)
+    ],
+    true
+  );
+
+  const implementationReturnType = property.type
+    ? factory.createUnionTypeNode([property.type, setterReturnType])
+    : undefined;
+
+  return [
+    createSignature([], property.type, undefined),
+    createSignature([createValueParameter(factory, parameterName, property.type)], setterReturnType, undefined),
+    createSignature(
+      [factory.createParameterDeclaration(
+        undefined,
+        undefined,
+        factory.createIdentifier(parameterName),
+        factory.createToken(ts.SyntaxKind.QuestionToken),
+        property.type,
+        undefined
+      )],
+      implementationReturnType,
+      body
+    )
+  ];
+}
+
+/**
+ * Creates `this.field`.
+ */
+function createFieldAccess(factory: ts.NodeFactory, property: PropertyInfo): ts.PropertyAccessExpression {
+  return factory.createPropertyAccessExpression(
+    factory.createThis(),
+    factory.createIdentifier(property.name)
+  );
+}
+
+/**
+ * Creates `this.field = value;`.
+ */
+function createFieldAssignment(
+  factory: ts.NodeFactory,
+  property: PropertyInfo,
+  valueName: string
+): ts.ExpressionStatement {
+  return factory.createExpressionStatement(
+    factory.createBinaryExpression(
+      createFieldAccess(factory, property),
+      factory.createToken(ts.SyntaxKind.EqualsToken),
+      factory.createIdentifier(valueName)
+    )
+  );
+}
+
+/**
+ * Creates the `value: Type` parameter of a setter, with-method or builder method.
+ */
+function createValueParameter(
+  factory: ts.NodeFactory,
+  name: string,
+  type: ts.TypeNode | undefined
+): ts.ParameterDeclaration {
+  return factory.createParameterDeclaration(
+    undefined,
+    undefined,
+    factory.createIdentifier(name),
+    undefined,
+    type,
+    undefined
+  );
+}
+
 /**
  * Generates builder pattern implementation.
  *
  * Generates:
  * - static builder(): Builder
- * - Builder class with fluent setters and build() method
+ *
+ * The Builder class itself is emitted next to the class by generateBuilderClass().
  */
 export function generateBuilder(
   factory: ts.NodeFactory,
   plan: TransformationPlan
 ): ts.ClassElement[] {
   const members: ts.ClassElement[] = [];
+  const builderName = getBuilderClassName(plan);
 
   // Static builder() method
   const builderMethod = factory.createMethodDeclaration(
@@ -314,16 +1254,13 @@ export function generateBuilder(
     undefined,
     factory.createIdentifier('builder'),
     undefined,
-    undefined,
+    cloneTypeParameters(factory, plan),
     [],
-    factory.createTypeReferenceNode(
-      factory.createIdentifier(`${plan.className}Builder`),
-      undefined
-    ),
+    createTypeReferenceWithArguments(factory, plan, builderName),
     factory.createBlock(
       [factory.createReturnStatement(
         factory.createNewExpression(
-          factory.createIdentifier(`${plan.className}Builder`),
+          factory.createIdentifier(builderName),
           undefined,
           []
         )
@@ -337,6 +1274,265 @@ export function generateBuilder(
   return members;
 }
 
+/**
+ * Creates the instance returned by build(): through the static factory when the
+ * constructor is private, e.g. User.of(...), otherwise new User(...).
+ */
+function createBuiltInstance(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  args: ts.Expression[]
+): ts.Expression {
+  if (!plan.staticConstructorName) {
+    return createNewInstance(factory, plan.className, args);
+  }
+
+  return factory.createCallExpression(
+    factory.createPropertyAccessExpression(
+      factory.createIdentifier(plan.className),
+      factory.createIdentifier(plan.staticConstructorName)
+    ),
+    undefined,
+    args
+  );
+}
+
+/**
+ * Generates the companion Builder class declared next to the target class.
+ *
+ * Example output:
+ * class UserBuilder {
+ *   private _id?: number;
+ *   id(id: number): UserBuilder {
+ *     this._id = id;
+ *     return this;
+ *   }
+ *   build(): User {
+ *     return new User(this._id);
+ *   }
+ * }
+ */
+export function generateBuilderClass(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.ClassDeclaration {
+  const builderName = getBuilderClassName(plan);
+  const builderType = createTypeReferenceWithArguments(factory, plan, builderName);
+  const members: ts.ClassElement[] = [];
+
+  // Base constructor parameters of a derived class are set like fields
+  for (const param of getBuilderSuperParameters(plan)) {
+    members.push(
+      factory.createPropertyDeclaration(
+        [factory.createModifier(ts.SyntaxKind.PrivateKeyword)],
+        factory.createIdentifier(`_${param.name}`),
+        factory.createToken(ts.SyntaxKind.QuestionToken),
+        param.type,
+        undefined
+      ),
+      createMethodDeclaration(
+        factory,
+        param.name,
+        [createValueParameter(factory, param.name, param.type)],
+        builderType,
+        factory.createBlock(
+          [
+            factory.createExpressionStatement(
+              factory.createBinaryExpression(
+                factory.createPropertyAccessExpression(
+                  factory.createThis(),
+                  factory.createIdentifier(`_${param.name}`)
+                ),
+                factory.createToken(ts.SyntaxKind.EqualsToken),
+                factory.createIdentifier(param.name)
+              )
+            ),
+            factory.createReturnStatement(factory.createThis())
+          ],
+          true
+        )
+      )
+    );
+  }
+
+  // private _field?: Type;
+  const builderProperties = getBuilderProperties(plan);
+  for (const prop of builderProperties) {
+    members.push(
+      factory.createPropertyDeclaration(
+        [factory.createModifier(ts.SyntaxKind.PrivateKeyword)],
+        factory.createIdentifier(getBuilderFieldName(plan, prop)),
+        factory.createToken(ts.SyntaxKind.QuestionToken),
+        prop.type,
+        undefined
+      )
+    );
+  }
+
+  // field(field: Type): Builder { this._field = field; return this; }
+  // Methods are named like the accessors, without the field prefix
+  for (const prop of builderProperties) {
+    const methodName = getAccessorBaseName(plan, prop);
+
+    const body = factory.createBlock(
+      [
+        factory.createExpressionStatement(
+          factory.createBinaryExpression(
+            factory.createPropertyAccessExpression(
+              factory.createThis(),
+              factory.createIdentifier(getBuilderFieldName(plan, prop))
+            ),
+            factory.createToken(ts.SyntaxKind.EqualsToken),
+            factory.createIdentifier(methodName)
+          )
+        ),
+        factory.createReturnStatement(factory.createThis())
+      ],
+      true
+    );
+
+    members.push(
+      createMethodDeclaration(
+        factory,
+        methodName,
+        [createValueParameter(factory, methodName, prop.type)],
+        builderType,
+        body
+      )
+    );
+  }
+
+  // build(): ClassName { return new ClassName(this._a, this._b); }
+  const buildArgs = createConstructorArguments(
+    factory,
+    plan.constructorStyle,
+    (getConstructorArgumentNames(plan) ?? []).map(name => {
+      const prop = plan.properties.find(p => p.name === name);
+      return [
+        name,
+        factory.createPropertyAccessExpression(
+          factory.createThis(),
+          factory.createIdentifier(prop ? getBuilderFieldName(plan, prop) : `_${name}`)
+        )
+      ];
+    })
+  );
+
+  members.push(
+    createMethodDeclaration(
+      factory,
+      'build',
+      [],
+      createTypeReferenceWithArguments(factory, plan, plan.className),
+      factory.createBlock(
+        [createReturnStatement(factory, createBuiltInstance(factory, plan, buildArgs))],
+        true
+      )
+    )
+  );
+
+  return factory.createClassDeclaration(
+    getBuilderClassModifiers(factory, plan),
+    factory.createIdentifier(builderName),
+    cloneTypeParameters(factory, plan),
+    undefined,
+    members
+  );
+}
+
+/**
+ * Gets the name of the companion Builder class.
+ */
+export function getBuilderClassName(plan: TransformationPlan): string {
+  return `${plan.className}Builder`;
+}
+
+/**
+ * Gets the properties that receive a Builder method. A method that would be
+ * named build() or like an earlier Builder method is not generated.
+ */
+export function getBuilderProperties(plan: TransformationPlan): PropertyInfo[] {
+  const methodNames = new Set(['build', ...getBuilderSuperParameters(plan).map(param => param.name)]);
+  return plan.properties.filter(p => {
+    const methodName = getAccessorBaseName(plan, p);
+    if (methodNames.has(methodName)) {
+      return false;
+    }
+    methodNames.add(methodName);
+    return true;
+  });
+}
+
+/**
+ * Gets the base constructor parameters the Builder sets like fields.
+ */
+function getBuilderSuperParameters(plan: TransformationPlan): SuperParameter[] {
+  return (plan.superParameters ?? []).filter(param => !plan.properties.some(p => p.name === param.name));
+}
+
+/**
+ * Gets the name of the private Builder field backing a property.
+ */
+function getBuilderFieldName(plan: TransformationPlan, property: PropertyInfo): string {
+  return `_${getAccessorBaseName(plan, property)}`;
+}
+
+/**
+ * The Builder is exported whenever the class is, except for default exports.
+ */
+function getBuilderClassModifiers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.Modifier[] | undefined {
+  const modifiers = ts.getModifiers(plan.classDeclaration) || [];
+  const isExported = modifiers.some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+  const isDefault = modifiers.some(m => m.kind === ts.SyntaxKind.DefaultKeyword);
+
+  if (isExported && !isDefault) {
+    return [factory.createModifier(ts.SyntaxKind.ExportKeyword)];
+  }
+
+  return undefined;
+}
+
+/**
+ * Copies the class type parameters so the Builder can be generic as well.
+ */
+export function cloneTypeParameters(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan
+): ts.TypeParameterDeclaration[] | undefined {
+  const typeParameters = plan.classDeclaration.typeParameters;
+  if (!typeParameters || typeParameters.length === 0) {
+    return undefined;
+  }
+
+  return typeParameters.map(tp =>
+    factory.createTypeParameterDeclaration(
+      undefined,
+      tp.name.text,
+      tp.constraint,
+      tp.default
+    )
+  );
+}
+
+/**
+ * Creates a type reference such as Name<T, U> using the class type parameters.
+ */
+export function createTypeReferenceWithArguments(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  name: string
+): ts.TypeReferenceNode {
+  const typeParameters = plan.classDeclaration.typeParameters;
+  const typeArguments = typeParameters && typeParameters.length > 0
+    ? typeParameters.map(tp => factory.createTypeReferenceNode(tp.name.text, undefined))
+    : undefined;
+
+  return factory.createTypeReferenceNode(factory.createIdentifier(name), typeArguments);
+}
+
 /**
  * Generates singleton pattern implementation.
  *
@@ -450,12 +1646,13 @@ export function generateLog(
  */
 export function generateNonNullValidation(
   factory: ts.NodeFactory,
-  propertyName: string
+  propertyName: string,
+  value: ts.Expression = factory.createIdentifier(propertyName)
 ): ts.Statement {
   // if (propertyName == null) { throw new Error('propertyName cannot be null or undefined'); }
   return factory.createIfStatement(
     factory.createBinaryExpression(
-      factory.createIdentifier(propertyName),
+      value,
       factory.createToken(ts.SyntaxKind.EqualsEqualsToken),
       factory.createNull()
     ),
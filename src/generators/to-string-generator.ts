@@ -0,0 +1,232 @@
+import * as ts from 'typescript';
+import { PropertyInfo } from '../utils/decorator-utils';
+import { ToStringFormat, createStatementBuilders, createStaticAccess } from '../utils/ast-helpers';
+import { hasPrimitiveType } from './equality-generator';
+
+/**
+ * Name of the private static value rendering method generated next to toString().
+ */
+export const FORMAT_METHOD = '_format';
+
+/**
+ * Name of the stack of objects being rendered, declared in toString() and _format().
+ */
+export const RENDERING_STACK = 'rendering';
+
+/**
+ * Rendered in place of an object that is already being rendered.
+ */
+export const CYCLE_MARKER = '<cycle>';
+
+/**
+ * How toString() renders field values, from @ToString options.
+ */
+export interface ToStringStyle {
+  format: ToStringFormat;
+  /** Render strings as quoted, escaped literals; always on for JSON */
+  quoteStrings: boolean;
+  /** Label values with their field names; always on for JSON */
+  includeFieldNames: boolean;
+}
+
+/**
+ * Whether toString() renders a field through _format() instead of
+ * interpolating it. JSON output formats every field; otherwise fields
+ * that are not primitives are formatted, and strings when quoted.
+ */
+export function usesFormatFunction(property: PropertyInfo, style: ToStringStyle): boolean {
+  if (style.format === 'json' || !hasPrimitiveType(property)) {
+    return true;
+  }
+
+  return style.quoteStrings && (property.type
+    ? isStringTypeNode(property.type)
+    : property.initializer !== undefined && ts.isStringLiteralLike(property.initializer));
+}
+
+function isStringTypeNode(type: ts.TypeNode): boolean {
+  if (ts.isParenthesizedTypeNode(type)) {
+    return isStringTypeNode(type.type);
+  }
+
+  if (ts.isUnionTypeNode(type)) {
+    return type.types.some(isStringTypeNode);
+  }
+
+  if (ts.isLiteralTypeNode(type)) {
+    return ts.isStringLiteral(type.literal);
+  }
+
+  return type.kind === ts.SyntaxKind.StringKeyword || type.kind === ts.SyntaxKind.TemplateLiteralType;
+}
+
+/**
+ * Declares the `rendering` stack in toString(), shared across all generated
+ * toString() methods through a global symbol.
+ */
+export function generateRenderingStack(factory: ts.NodeFactory): ts.VariableStatement {
+  return createStatementBuilders(factory).sharedStack(RENDERING_STACK, 'ts-lombok.toString', () => factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword));
+}
+
+/**
+ * Generates the private static method toString() renders non-primitive
+ * values with, created once per class like _hash().
+ *
+ * Example output (lombok format):
+ * private static _format(value: any): string {
+ *   const rendering: unknown[] = ...;
+ *   if (typeof value === 'string') return value;
+ *   if (value == null || typeof value !== 'object') return String(value);
+ *   if (rendering.includes(value)) return '<cycle>';
+ *   if (value instanceof Date) return isNaN(value.getTime()) ? String(value) : value.toISOString();
+ *   ...
+ *   rendering.push(value);
+ *   try {
+ *     if (Array.isArray(value) || ArrayBuffer.isView(value) || value instanceof Set)
+ *       return '[' + Array.from(value, item => User._format(item)).join(', ') + ']';
+ *     ...
+ *   } finally {
+ *     rendering.pop();
+ *   }
+ * }
+ *
+ * Arrays, typed arrays and Sets render as [a, b], Maps as {key=value},
+ * Dates as ISO strings. Objects with their own toString() render through
+ * it; other objects, whose toString() gives '[object ...]', list their own
+ * enumerable properties. The JSON format renders the same values as JSON,
+ * and the multiline format indents the lines of nested toString() output.
+ *
+ * Objects met again while they are being rendered, by this method or by
+ * a generated toString() further up, render as <cycle>.
+ */
+export function generateFormatMethod(
+  factory: ts.NodeFactory,
+  className: string,
+  methodName: string,
+  style: ToStringStyle
+): ts.MethodDeclaration {
+  const { id, call, not, and, or, instanceOf, typeIs, typeIsNot, returnIf, pushed, helperMethod } =
+    createStatementBuilders(factory);
+  const json = style.format === 'json';
+  const rendering = id(RENDERING_STACK);
+  const value = id('value');
+  const item = id('item');
+  const key = id('key');
+  const text = (literal: string) => factory.createStringLiteral(literal);
+  const concat = (...parts: ts.Expression[]) => parts.reduce((acc, e) => factory.createAdd(acc, e));
+  const format = (expression: ts.Expression) =>
+    factory.createCallExpression(createStaticAccess(factory, className, methodName), undefined, [expression]);
+  const toString = (expression: ts.Expression) =>
+    factory.createCallExpression(id('String'), undefined, [expression]);
+  const stringify = (expression: ts.Expression) => call(id('JSON'), 'stringify', [expression]);
+  const arrow = (parameter: ts.BindingName, body: ts.Expression) =>
+    factory.createArrowFunction(
+      undefined,
+      undefined,
+      [factory.createParameterDeclaration(undefined, undefined, parameter)],
+      undefined,
+      factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+      body
+    );
+  const separator = text(json ? ',' : ', ');
+  // key=value, or "key":value in JSON
+  const entry = (label: ts.Expression, entryValue: ts.Expression) =>
+    concat(label, text(json ? ':' : '='), format(entryValue));
+  // open + items.join(separator) + close
+  const enclose = (open: string, items: ts.Expression, close: string) =>
+    concat(text(open), call(items, 'join', [separator]), text(close));
+
+  const primitives: ts.Statement[] = json
+    ? [
+        returnIf(factory.createEquality(value, factory.createNull()), text('null')),
+        returnIf(
+          or(typeIs(value, 'number'), typeIs(value, 'boolean'), typeIs(value, 'string')),
+          stringify(value)
+        ),
+        returnIf(typeIsNot(value, 'object'), stringify(toString(value)))
+      ]
+    : [
+        returnIf(typeIs(value, 'string'), style.quoteStrings ? stringify(value) : value),
+        returnIf(
+          or(factory.createEquality(value, factory.createNull()), typeIsNot(value, 'object')),
+          toString(value)
+        )
+      ];
+
+  // Objects with their own toString(), such as other generated classes,
+  // render through it; '[object Object]' and the like fall through
+  const rendered = id('text');
+  const delegated = json
+    // Nested JSON is embedded as is, any other text as a string
+    ? factory.createConditionalExpression(
+        call(rendered, 'startsWith', [text('{')]),
+        undefined,
+        rendered,
+        undefined,
+        stringify(rendered)
+      )
+    : style.format === 'multiline'
+      ? call(rendered, 'replace', [factory.createRegularExpressionLiteral('/\\n/g'), text('\n  ')])
+      : rendered;
+  const isList = () => or(call(id('Array'), 'isArray', [value]), call(id('ArrayBuffer'), 'isView', [value]));
+  const delegation = factory.createIfStatement(
+    and(
+      not(factory.createParenthesizedExpression(isList())),
+      typeIs(factory.createPropertyAccessExpression(value, 'toString'), 'function')
+    ),
+    factory.createBlock([
+      factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(rendered, undefined, undefined, toString(value))],
+          ts.NodeFlags.Const
+        )
+      ),
+      returnIf(not(call(rendered, 'startsWith', [text('[object ')])), delegated)
+    ], true)
+  );
+
+  const isInvalidDate = factory.createCallExpression(id('isNaN'), undefined, [call(value, 'getTime')]);
+  const statements: ts.Statement[] = [
+    generateRenderingStack(factory),
+    ...primitives,
+    returnIf(call(rendering, 'includes', [value]), text(json ? JSON.stringify(CYCLE_MARKER) : CYCLE_MARKER)),
+    returnIf(
+      instanceOf(value, 'Date'),
+      factory.createConditionalExpression(
+        isInvalidDate,
+        undefined,
+        json ? text('null') : toString(value),
+        undefined,
+        json ? stringify(call(value, 'toISOString')) : call(value, 'toISOString')
+      )
+    ),
+    delegation,
+    ...pushed(rendering, value, [
+      returnIf(
+        or(isList(), instanceOf(value, 'Set')),
+        enclose('[', call(id('Array'), 'from', [value, arrow(item, format(item))]), ']')
+      ),
+      returnIf(
+        instanceOf(value, 'Map'),
+        enclose('{', call(id('Array'), 'from', [
+          value,
+          arrow(
+            factory.createArrayBindingPattern([
+              factory.createBindingElement(undefined, undefined, key),
+              factory.createBindingElement(undefined, undefined, item)
+            ]),
+            entry(json ? stringify(toString(key)) : format(key), item)
+          )
+        ]), '}')
+      ),
+      factory.createReturnStatement(enclose('{', call(
+        call(id('Object'), 'keys', [value]),
+        'map',
+        [arrow(key, entry(json ? stringify(key) : key, factory.createElementAccessExpression(value, key)))]
+      ), '}'))
+    ])
+  ];
+
+  return helperMethod(methodName, [value], ts.SyntaxKind.StringKeyword, statements);
+}
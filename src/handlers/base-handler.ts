@@ -1,6 +1,17 @@
 import * as ts from 'typescript';
 import { TransformationPlan } from '../transformer/context';
 
+/**
+ * Kind of value a decorator option accepts.
+ * An array of strings restricts the option to those values.
+ */
+export type OptionKind = 'boolean' | 'string' | 'number' | 'string[]';
+
+/**
+ * Options a decorator accepts, keyed by option name.
+ */
+export type OptionSchema = Record<string, OptionKind | readonly string[]>;
+
 /**
  * Base interface for decorator handlers.
  */
@@ -11,6 +22,9 @@ export interface DecoratorHandler {
   /** Priority for execution order (higher = earlier) */
   readonly priority: number;
 
+  /** Options accepted by the decorator; options are read from plan.decoratorOptions */
+  readonly options?: OptionSchema;
+
   /** Modifies the transformation plan */
   modifyPlan(plan: TransformationPlan): void;
 
@@ -19,6 +33,12 @@ export interface DecoratorHandler {
     factory: ts.NodeFactory,
     plan: TransformationPlan
   ): ts.ClassElement[];
+
+  /** Generates statements emitted next to the class declaration */
+  generateStatements?(
+    factory: ts.NodeFactory,
+    plan: TransformationPlan
+  ): ts.Statement[];
 }
 
 /**
@@ -36,4 +56,11 @@ export abstract class BaseHandler implements DecoratorHandler {
   ): ts.ClassElement[] {
     return [];
   }
+
+  generateStatements(
+    _factory: ts.NodeFactory,
+    _plan: TransformationPlan
+  ): ts.Statement[] {
+    return [];
+  }
 }
@@ -1,17 +1,43 @@
 import * as ts from 'typescript';
-import { DecoratorHandler } from './base-handler';
-import { TransformationPlan } from '../transformer/context';
+import { DecoratorHandler, OptionSchema } from './base-handler';
+import { CONSTRUCTOR_STYLES, ConstructorStyle, TransformationPlan } from '../transformer/context';
 import {
   generateToString,
+  generateFormatMembers,
+  generateInspectMembers,
   generateEquals,
+  generateDeepEqualsMembers,
+  generateCanEqual,
   generateHashCode,
+  generateHashMembers,
   generateWithMethods,
   generateGetters,
   generateSetters,
   generateBuilder,
+  generateBuilderClass,
   generateSingleton,
   generateLog
 } from '../generators/method-generator';
+import { ACCESS_LEVELS, TO_STRING_FORMATS } from '../utils/ast-helpers';
+
+/**
+ * Options of decorators that generate a constructor.
+ */
+const CONSTRUCTOR_OPTIONS: OptionSchema = { style: CONSTRUCTOR_STYLES, staticName: 'string' };
+
+/**
+ * Applies the options of a decorator that generates a constructor,
+ * e.g. @AllArgsConstructor({ style: 'object', staticName: 'of' }).
+ */
+function applyConstructorOptions(plan: TransformationPlan, decoratorName: string): void {
+  const options = plan.decoratorOptions[decoratorName] ?? {};
+  if (options.style) {
+    plan.constructorStyle = options.style as ConstructorStyle;
+  }
+  if (options.staticName) {
+    plan.staticConstructorName = options.staticName as string;
+  }
+}
 
 /**
  * Handler for @Record decorator.
@@ -20,11 +46,14 @@ import {
 export class RecordHandler implements DecoratorHandler {
   readonly decoratorName = 'Record';
   readonly priority = 100;
+  readonly options: OptionSchema = CONSTRUCTOR_OPTIONS;
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'all';
+    applyConstructorOptions(plan, this.decoratorName);
     plan.freezeInstance = true;
+    plan.compactConstructor = true;
     plan.makeReadonly = true;
     plan.generateToString = true;
   }
@@ -33,7 +62,7 @@ export class RecordHandler implements DecoratorHandler {
     const members: ts.ClassElement[] = [];
 
     if (plan.generateToString) {
-      members.push(generateToString(factory, plan));
+      members.push(generateToString(factory, plan), ...generateFormatMembers(factory, plan));
     }
 
     return members;
@@ -47,11 +76,14 @@ export class RecordHandler implements DecoratorHandler {
 export class ValueHandler implements DecoratorHandler {
   readonly decoratorName = 'Value';
   readonly priority = 100;
+  readonly options: OptionSchema = CONSTRUCTOR_OPTIONS;
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'all';
+    applyConstructorOptions(plan, this.decoratorName);
     plan.freezeInstance = true;
+    plan.compactConstructor = true;
     plan.makeReadonly = true;
     plan.generateToString = true;
   }
@@ -60,7 +92,7 @@ export class ValueHandler implements DecoratorHandler {
     const members: ts.ClassElement[] = [];
 
     if (plan.generateToString) {
-      members.push(generateToString(factory, plan));
+      members.push(generateToString(factory, plan), ...generateFormatMembers(factory, plan));
     }
 
     return members;
@@ -69,26 +101,36 @@ export class ValueHandler implements DecoratorHandler {
 
 /**
  * Handler for @Equals decorator.
- * Generates equals() and hashCode() methods.
+ * Generates equals() and hashCode() methods; on a field it only
+ * configures how that field is compared.
  */
 export class EqualsHandler implements DecoratorHandler {
   readonly decoratorName = 'Equals';
   readonly priority = 70;
+  readonly options: OptionSchema = {
+    exclude: 'string[]',
+    onlyExplicitlyIncluded: 'boolean',
+    deep: 'boolean',
+    callSuper: 'boolean'
+  };
 
   modifyPlan(plan: TransformationPlan): void {
-    plan.generateEquals = true;
-    plan.generateHashCode = true;
+    // On a field, @Equals only sets options for that field
+    if (plan.decorators.includes(this.decoratorName)) {
+      plan.generateEquals = true;
+      plan.generateHashCode = true;
+    }
   }
 
   generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
     const members: ts.ClassElement[] = [];
 
     if (plan.generateEquals) {
-      members.push(generateEquals(factory, plan));
+      members.push(generateEquals(factory, plan), generateCanEqual(factory, plan), ...generateDeepEqualsMembers(factory, plan));
     }
 
     if (plan.generateHashCode) {
-      members.push(generateHashCode(factory, plan));
+      members.push(generateHashCode(factory, plan), ...generateHashMembers(factory, plan));
     }
 
     return members;
@@ -97,61 +139,64 @@ export class EqualsHandler implements DecoratorHandler {
 
 /**
  * Handler for @With decorator.
- * Generates withX() methods for immutable updates.
+ * Generates withX() methods for immutable updates, for all properties when
+ * used on the class or for the decorated properties only when used on fields.
  */
 export class WithHandler implements DecoratorHandler {
   readonly decoratorName = 'With';
   readonly priority = 70;
+  readonly options: OptionSchema = { access: ACCESS_LEVELS };
 
   modifyPlan(plan: TransformationPlan): void {
-    plan.generateWithMethods = true;
+    if (plan.decorators.includes(this.decoratorName)) {
+      plan.generateWithMethods = true;
+    }
   }
 
   generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
-    if (plan.generateWithMethods) {
-      return generateWithMethods(factory, plan);
-    }
-    return [];
+    return generateWithMethods(factory, plan);
   }
 }
 
 /**
  * Handler for @Getter decorator.
- * Generates getter methods for all properties.
+ * Generates getter methods for all properties when used on the class,
+ * or for the decorated properties only when used on fields.
  */
 export class GetterHandler implements DecoratorHandler {
   readonly decoratorName = 'Getter';
   readonly priority = 80;
+  readonly options: OptionSchema = { access: ACCESS_LEVELS, native: 'boolean', lazy: 'boolean' };
 
   modifyPlan(plan: TransformationPlan): void {
-    plan.generateGetters = true;
+    if (plan.decorators.includes(this.decoratorName)) {
+      plan.generateGetters = true;
+    }
   }
 
   generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
-    if (plan.generateGetters) {
-      return generateGetters(factory, plan);
-    }
-    return [];
+    return generateGetters(factory, plan);
   }
 }
 
 /**
  * Handler for @Setter decorator.
- * Generates setter methods for all properties.
+ * Generates setter methods for all properties when used on the class,
+ * or for the decorated properties only when used on fields.
  */
 export class SetterHandler implements DecoratorHandler {
   readonly decoratorName = 'Setter';
   readonly priority = 80;
+  readonly options: OptionSchema = { access: ACCESS_LEVELS, native: 'boolean' };
 
   modifyPlan(plan: TransformationPlan): void {
-    plan.generateSetters = true;
+    if (plan.decorators.includes(this.decoratorName)) {
+      plan.generateSetters = true;
+    }
   }
 
   generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
-    if (plan.generateSetters) {
-      return generateSetters(factory, plan);
-    }
-    return [];
+    return generateSetters(factory, plan);
   }
 }
 
@@ -162,6 +207,14 @@ export class SetterHandler implements DecoratorHandler {
 export class ToStringHandler implements DecoratorHandler {
   readonly decoratorName = 'ToString';
   readonly priority = 70;
+  readonly options: OptionSchema = {
+    exclude: 'string[]',
+    onlyExplicitlyIncluded: 'boolean',
+    callSuper: 'boolean',
+    format: TO_STRING_FORMATS,
+    quoteStrings: 'boolean',
+    includeFieldNames: 'boolean'
+  };
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateToString = true;
@@ -169,7 +222,27 @@ export class ToStringHandler implements DecoratorHandler {
 
   generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
     if (plan.generateToString) {
-      return [generateToString(factory, plan)];
+      return [generateToString(factory, plan), ...generateFormatMembers(factory, plan)];
+    }
+    return [];
+  }
+}
+
+/**
+ * Handler for @Inspect decorator.
+ * Generates the util.inspect.custom method and Symbol.toStringTag getter.
+ */
+export class InspectHandler implements DecoratorHandler {
+  readonly decoratorName = 'Inspect';
+  readonly priority = 70;
+
+  modifyPlan(plan: TransformationPlan): void {
+    plan.generateInspect = true;
+  }
+
+  generateMembers(factory: ts.NodeFactory, plan: TransformationPlan): ts.ClassElement[] {
+    if (plan.generateInspect) {
+      return generateInspectMembers(factory, plan);
     }
     return [];
   }
@@ -182,10 +255,12 @@ export class ToStringHandler implements DecoratorHandler {
 export class DataHandler implements DecoratorHandler {
   readonly decoratorName = 'Data';
   readonly priority = 100;
+  readonly options: OptionSchema = { native: 'boolean', callSuper: 'boolean', ...CONSTRUCTOR_OPTIONS };
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'all';
+    applyConstructorOptions(plan, this.decoratorName);
     plan.generateGetters = true;
     plan.generateSetters = true;
     plan.generateToString = true;
@@ -197,13 +272,13 @@ export class DataHandler implements DecoratorHandler {
     const members: ts.ClassElement[] = [];
 
     if (plan.generateToString) {
-      members.push(generateToString(factory, plan));
+      members.push(generateToString(factory, plan), ...generateFormatMembers(factory, plan));
     }
     if (plan.generateEquals) {
-      members.push(generateEquals(factory, plan));
+      members.push(generateEquals(factory, plan), generateCanEqual(factory, plan), ...generateDeepEqualsMembers(factory, plan));
     }
     if (plan.generateHashCode) {
-      members.push(generateHashCode(factory, plan));
+      members.push(generateHashCode(factory, plan), ...generateHashMembers(factory, plan));
     }
     if (plan.generateGetters) {
       members.push(...generateGetters(factory, plan));
@@ -218,7 +293,7 @@ export class DataHandler implements DecoratorHandler {
 
 /**
  * Handler for @Builder decorator.
- * Generates builder pattern implementation.
+ * Generates the static builder() method and the companion Builder class.
  */
 export class BuilderHandler implements DecoratorHandler {
   readonly decoratorName = 'Builder';
@@ -236,6 +311,13 @@ export class BuilderHandler implements DecoratorHandler {
     }
     return [];
   }
+
+  generateStatements(factory: ts.NodeFactory, plan: TransformationPlan): ts.Statement[] {
+    if (plan.generateBuilder) {
+      return [generateBuilderClass(factory, plan)];
+    }
+    return [];
+  }
 }
 
 /**
@@ -245,10 +327,12 @@ export class BuilderHandler implements DecoratorHandler {
 export class NoArgsConstructorHandler implements DecoratorHandler {
   readonly decoratorName = 'NoArgsConstructor';
   readonly priority = 95;
+  readonly options: OptionSchema = { staticName: 'string' };
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'none';
+    applyConstructorOptions(plan, this.decoratorName);
   }
 
   generateMembers(): ts.ClassElement[] {
@@ -263,10 +347,12 @@ export class NoArgsConstructorHandler implements DecoratorHandler {
 export class AllArgsConstructorHandler implements DecoratorHandler {
   readonly decoratorName = 'AllArgsConstructor';
   readonly priority = 95;
+  readonly options: OptionSchema = CONSTRUCTOR_OPTIONS;
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'all';
+    applyConstructorOptions(plan, this.decoratorName);
   }
 
   generateMembers(): ts.ClassElement[] {
@@ -281,10 +367,12 @@ export class AllArgsConstructorHandler implements DecoratorHandler {
 export class RequiredArgsConstructorHandler implements DecoratorHandler {
   readonly decoratorName = 'RequiredArgsConstructor';
   readonly priority = 95;
+  readonly options: OptionSchema = CONSTRUCTOR_OPTIONS;
 
   modifyPlan(plan: TransformationPlan): void {
     plan.generateConstructor = true;
     plan.constructorType = 'required';
+    applyConstructorOptions(plan, this.decoratorName);
   }
 
   generateMembers(): ts.ClassElement[] {
@@ -332,6 +420,44 @@ export class SingletonHandler implements DecoratorHandler {
   }
 }
 
+/**
+ * Handler for @Accessors decorator.
+ * Only carries options; the getter, setter, with and builder generators
+ * read them to name and type their methods.
+ */
+export class AccessorsHandler implements DecoratorHandler {
+  readonly decoratorName = 'Accessors';
+  readonly priority = 100;
+  readonly options: OptionSchema = { fluent: 'boolean', chain: 'boolean', prefix: 'string[]', isPrefix: 'boolean' };
+
+  modifyPlan(): void {
+    // Options are read from plan.decoratorOptions by the generators
+  }
+
+  generateMembers(): ts.ClassElement[] {
+    return [];
+  }
+}
+
+/**
+ * Handler for the @Sensitive property decorator.
+ * Only carries options; generated toString() and @Inspect output read them
+ * to mask the field.
+ */
+export class SensitiveHandler implements DecoratorHandler {
+  readonly decoratorName = 'Sensitive';
+  readonly priority = 100;
+  readonly options: OptionSchema = { mask: 'string', showLast: 'number' };
+
+  modifyPlan(): void {
+    // Options are read from PropertyInfo.decoratorOptions by the generators
+  }
+
+  generateMembers(): ts.ClassElement[] {
+    return [];
+  }
+}
+
 /**
  * Registry of all decorator handlers.
  */
@@ -350,6 +476,7 @@ export class HandlerRegistry {
     this.register(new GetterHandler());
     this.register(new SetterHandler());
     this.register(new ToStringHandler());
+    this.register(new InspectHandler());
     this.register(new DataHandler());
     this.register(new BuilderHandler());
     this.register(new NoArgsConstructorHandler());
@@ -357,6 +484,8 @@ export class HandlerRegistry {
     this.register(new RequiredArgsConstructorHandler());
     this.register(new LogHandler());
     this.register(new SingletonHandler());
+    this.register(new AccessorsHandler());
+    this.register(new SensitiveHandler());
   }
 
   register(handler: DecoratorHandler): void {
@@ -27,6 +27,8 @@ export {
   TransformerConfig
 } from './transformer/transformer-factory';
 
+export { createDeclarationTransformer } from './transformer/declaration-transformer';
+
 // Export default for ts-patch plugin entry
 export { default } from './transformer/transformer-factory';
 
@@ -0,0 +1,726 @@
+import * as ts from 'typescript';
+import { TransformationContext } from '../transformer/context';
+import { planClassTransformation } from '../transformer/visitor';
+import { collectGeneratedMembers } from '../transformer/generated-members';
+
+/**
+ * TypeScript language service plugin for ts-lombok.
+ *
+ * The transformer only runs at emit time, so the type checker never sees the
+ * members it generates. This plugin runs the same handler pipeline inside
+ * tsserver and uses the result to:
+ * - drop "Expected 0 arguments" errors on generated constructors, or report
+ *   them as access errors for private constructors with a static factory
+ * - drop "Property 'x' does not exist" errors for generated members, or
+ *   report them as access errors for protected and private members
+ * - drop "has no initializer" errors for fields assigned by a generated constructor
+ * - add generated members to completions and quick info
+ * - report the transformer's own diagnostics, such as invalid decorator options
+ *
+ * Usage in tsconfig.json:
+ * ```json
+ * {
+ *   "compilerOptions": {
+ *     "plugins": [
+ *       { "name": "ts-lombok-kit/language-service" }
+ *     ]
+ *   }
+ * }
+ * ```
+ */
+
+/**
+ * Diagnostic codes the plugin knows how to resolve.
+ */
+const EXPECTED_ARGUMENTS = 2554;
+const EXPECTED_AT_LEAST_ARGUMENTS = 2555;
+const PROPERTY_DOES_NOT_EXIST = 2339;
+const PROPERTY_DOES_NOT_EXIST_DID_YOU_MEAN = 2551;
+const PROPERTY_HAS_NO_INITIALIZER = 2564;
+const PROPERTY_IS_PRIVATE = 2341;
+const PROPERTY_IS_PROTECTED = 2445;
+const CONSTRUCTOR_IS_PRIVATE = 2673;
+
+/**
+ * Describes a member generated for a class.
+ */
+export interface GeneratedMemberInfo {
+  name: string;
+  isStatic: boolean;
+  accessibility: 'public' | 'protected' | 'private';
+  kind: ts.ScriptElementKind;
+  /** Printed signature, e.g. "getId(): number" */
+  signature: string;
+}
+
+/**
+ * Describes everything generated for a single class.
+ */
+export interface GeneratedClassInfo {
+  className: string;
+  /** Generated constructor parameter count range, if a constructor is generated */
+  constructorArity: { min: number; max: number; isPrivate: boolean } | undefined;
+  members: GeneratedMemberInfo[];
+  /** Properties assigned by the generated constructor */
+  assignedProperties: Set<string>;
+  /** Diagnostics reported while planning the class */
+  diagnostics: readonly ts.Diagnostic[];
+}
+
+/**
+ * Class descriptions per program. Unchanged files keep their nodes across
+ * programs, but what is generated for them can depend on other files, such
+ * as a base class, so each program starts afresh.
+ */
+const classInfoCache = new WeakMap<ts.Program, WeakMap<ts.ClassDeclaration, GeneratedClassInfo | null>>();
+
+function getClassInfoCache(program: ts.Program): WeakMap<ts.ClassDeclaration, GeneratedClassInfo | null> {
+  let cache = classInfoCache.get(program);
+  if (!cache) {
+    cache = new WeakMap();
+    classInfoCache.set(program, cache);
+  }
+  return cache;
+}
+
+/**
+ * Runs the handler pipeline for a class and describes the generated members.
+ */
+export function describeGeneratedClass(
+  program: ts.Program,
+  node: ts.ClassDeclaration
+): GeneratedClassInfo | undefined {
+  const cache = getClassInfoCache(program);
+  const cached = cache.get(node);
+  if (cached !== undefined) {
+    return cached ?? undefined;
+  }
+
+  const context = new TransformationContext(program, ts.factory);
+  const transformation = planClassTransformation(context, node);
+  if (!transformation) {
+    // A class that is skipped, e.g. an anonymous one, may still report why
+    const skipped: GeneratedClassInfo | null = context.diagnostics.length > 0
+      ? {
+          className: node.name?.text ?? '',
+          constructorArity: undefined,
+          members: [],
+          assignedProperties: new Set(),
+          diagnostics: context.diagnostics
+        }
+      : null;
+    cache.set(node, skipped);
+    return skipped ?? undefined;
+  }
+
+  const { plan, handlers } = transformation;
+  const generated = collectGeneratedMembers(ts.factory, plan, handlers);
+  const sourceFile = node.getSourceFile();
+  const printer = ts.createPrinter({ removeComments: true });
+
+  const members: GeneratedMemberInfo[] = [];
+  for (const member of generated.members) {
+    const info = describeMember(printer, sourceFile, member);
+    if (info) {
+      members.push(info);
+    }
+  }
+
+  let constructorArity: GeneratedClassInfo['constructorArity'];
+  const assignedProperties = new Set<string>();
+  const ctor = generated.constructorDeclaration;
+  if (ctor) {
+    const required = ctor.parameters.filter(p => !p.questionToken && !p.initializer && !p.dotDotDotToken);
+    const hasRest = ctor.parameters.some(p => p.dotDotDotToken);
+    constructorArity = {
+      min: required.length,
+      max: hasRest ? Infinity : ctor.parameters.length,
+      isPrivate: ts.getModifiers(ctor)?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword) ?? false
+    };
+    for (const prop of plan.properties) {
+      assignedProperties.add(prop.name);
+    }
+  }
+
+  const info: GeneratedClassInfo = {
+    className: plan.className,
+    constructorArity,
+    members,
+    assignedProperties,
+    diagnostics: context.diagnostics
+  };
+
+  cache.set(node, info);
+  return info;
+}
+
+/**
+ * Prints a generated member as a one-line signature.
+ */
+function describeMember(
+  printer: ts.Printer,
+  sourceFile: ts.SourceFile,
+  member: ts.ClassElement
+): GeneratedMemberInfo | undefined {
+  if (!member.name || !ts.isIdentifier(member.name)) {
+    return undefined;
+  }
+
+  const name = member.name.text;
+  const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) || [] : [];
+  const isStatic = modifiers.some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+  const accessibility = modifiers.some(m => m.kind === ts.SyntaxKind.PrivateKeyword)
+    ? 'private'
+    : modifiers.some(m => m.kind === ts.SyntaxKind.ProtectedKeyword) ? 'protected' : 'public';
+  const print = (node: ts.Node) => printer.printNode(ts.EmitHint.Unspecified, node, sourceFile);
+
+  if (ts.isMethodDeclaration(member)) {
+    const typeParameters = member.typeParameters
+      ? `<${member.typeParameters.map(print).join(', ')}>`
+      : '';
+    const parameters = member.parameters.map(print).join(', ');
+    const returnType = member.type ? `: ${print(member.type)}` : '';
+    return {
+      name,
+      isStatic,
+      accessibility,
+      kind: ts.ScriptElementKind.memberFunctionElement,
+      signature: `${name}${typeParameters}(${parameters})${returnType}`
+    };
+  }
+
+  if (ts.isPropertyDeclaration(member)) {
+    const type = member.type ? `: ${print(member.type)}` : '';
+    return {
+      name,
+      isStatic,
+      accessibility,
+      kind: ts.ScriptElementKind.memberVariableElement,
+      signature: `${name}${type}`
+    };
+  }
+
+  if (ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) {
+    const type = ts.isGetAccessorDeclaration(member) && member.type ? `: ${print(member.type)}` : '';
+    return {
+      name,
+      isStatic,
+      accessibility,
+      kind: ts.ScriptElementKind.memberGetAccessorElement,
+      signature: `${name}${type}`
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves the class declaration behind a class reference or an instance expression.
+ * Returns the class and whether its static side is being accessed.
+ */
+function resolveClassOfExpression(
+  checker: ts.TypeChecker,
+  expression: ts.Expression
+): { declaration: ts.ClassDeclaration; isStatic: boolean } | undefined {
+  let symbol = checker.getSymbolAtLocation(expression);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+
+  if (symbol && symbol.flags & ts.SymbolFlags.Class && expression.kind !== ts.SyntaxKind.ThisKeyword) {
+    const declaration = symbol.declarations?.find(ts.isClassDeclaration);
+    if (declaration) {
+      return { declaration, isStatic: true };
+    }
+  }
+
+  const type = checker.getTypeAtLocation(expression);
+  const declaration = type.getSymbol()?.declarations?.find(ts.isClassDeclaration);
+  if (declaration) {
+    return { declaration, isStatic: false };
+  }
+
+  return undefined;
+}
+
+/**
+ * A generated member together with the class that declares it.
+ */
+interface GeneratedMemberMatch {
+  declaration: ts.ClassDeclaration;
+  info: GeneratedClassInfo;
+  member: GeneratedMemberInfo;
+}
+
+/**
+ * Finds a generated member on a class or any of its base classes.
+ */
+function findGeneratedMember(
+  program: ts.Program,
+  declaration: ts.ClassDeclaration,
+  name: string,
+  isStatic: boolean
+): GeneratedMemberMatch | undefined {
+  for (const current of getClassHierarchy(program.getTypeChecker(), declaration)) {
+    const info = describeGeneratedClass(program, current);
+    const member = info?.members.find(m => m.name === name && m.isStatic === isStatic);
+    if (info && member) {
+      return { declaration: current, info, member };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the generated constructor a class uses, which may be inherited
+ * from a base class that does not declare its own constructor.
+ */
+function findConstructorArity(
+  program: ts.Program,
+  declaration: ts.ClassDeclaration
+): GeneratedClassInfo['constructorArity'] {
+  for (const current of getClassHierarchy(program.getTypeChecker(), declaration)) {
+    const arity = describeGeneratedClass(program, current)?.constructorArity;
+    if (arity) {
+      return arity;
+    }
+    if (current.members.some(ts.isConstructorDeclaration)) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists generated members visible on a class, including inherited ones.
+ */
+function listGeneratedMembers(
+  program: ts.Program,
+  declaration: ts.ClassDeclaration,
+  isStatic: boolean
+): GeneratedMemberMatch[] {
+  const result: GeneratedMemberMatch[] = [];
+  const seen = new Set<string>();
+  for (const current of getClassHierarchy(program.getTypeChecker(), declaration)) {
+    const info = describeGeneratedClass(program, current);
+    for (const member of info?.members ?? []) {
+      if (member.isStatic === isStatic && !seen.has(member.name)) {
+        seen.add(member.name);
+        result.push({ declaration: current, info: info!, member });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Checks whether a protected or private generated member may be used at a location,
+ * following TypeScript's rules: private members only inside the declaring class,
+ * protected members also inside its subclasses.
+ */
+function isMemberAccessible(
+  checker: ts.TypeChecker,
+  location: ts.Node,
+  match: GeneratedMemberMatch
+): boolean {
+  if (match.member.accessibility === 'public') {
+    return true;
+  }
+
+  for (let node: ts.Node | undefined = location.parent; node; node = node.parent) {
+    if (!ts.isClassDeclaration(node)) {
+      continue;
+    }
+    if (node === match.declaration) {
+      return true;
+    }
+    if (match.member.accessibility === 'protected' && getClassHierarchy(checker, node).includes(match.declaration)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Returns the class followed by its base class declarations.
+ */
+function getClassHierarchy(
+  checker: ts.TypeChecker,
+  declaration: ts.ClassDeclaration
+): ts.ClassDeclaration[] {
+  const hierarchy: ts.ClassDeclaration[] = [];
+  let current: ts.ClassDeclaration | undefined = declaration;
+
+  while (current && !hierarchy.includes(current)) {
+    hierarchy.push(current);
+    const extendsClause: ts.HeritageClause | undefined = current.heritageClauses?.find(
+      h => h.token === ts.SyntaxKind.ExtendsKeyword
+    );
+    const baseExpression: ts.Expression | undefined = extendsClause?.types[0]?.expression;
+    current = baseExpression
+      ? resolveClassOfExpression(checker, baseExpression)?.declaration
+      : undefined;
+  }
+
+  return hierarchy;
+}
+
+/**
+ * Finds the innermost node that spans a position.
+ */
+function findNodeAtPosition(sourceFile: ts.SourceFile, position: number): ts.Node | undefined {
+  function find(node: ts.Node): ts.Node | undefined {
+    if (position < node.getStart(sourceFile) || position >= node.getEnd()) {
+      return undefined;
+    }
+    return ts.forEachChild(node, find) ?? node;
+  }
+  return find(sourceFile);
+}
+
+/**
+ * Finds the property access whose member name is being typed at a position.
+ */
+function findPropertyAccessForCompletion(
+  sourceFile: ts.SourceFile,
+  position: number
+): ts.PropertyAccessExpression | undefined {
+  let result: ts.PropertyAccessExpression | undefined;
+
+  function visit(node: ts.Node): void {
+    if (position < node.getStart(sourceFile) || position > node.getEnd()) {
+      return;
+    }
+    if (ts.isPropertyAccessExpression(node) && position > node.expression.getEnd()) {
+      result = node;
+    }
+    ts.forEachChild(node, visit);
+  }
+
+  visit(sourceFile);
+  return result;
+}
+
+/**
+ * Decides whether a diagnostic is caused by members the transformer will generate.
+ * Returns false to drop it, a replacement diagnostic, or true to keep it as is.
+ */
+function resolveDiagnostic(
+  program: ts.Program,
+  sourceFile: ts.SourceFile,
+  diagnostic: ts.Diagnostic
+): ts.Diagnostic | boolean {
+  if (diagnostic.start === undefined) {
+    return true;
+  }
+
+  const checker = program.getTypeChecker();
+  const node = findNodeAtPosition(sourceFile, diagnostic.start);
+  if (!node) {
+    return true;
+  }
+
+  switch (diagnostic.code) {
+    case EXPECTED_ARGUMENTS:
+    case EXPECTED_AT_LEAST_ARGUMENTS: {
+      const newExpression = findAncestor(node, ts.isNewExpression);
+      if (!newExpression) {
+        return true;
+      }
+      const target = resolveClassOfExpression(checker, newExpression.expression);
+      if (!target?.isStatic) {
+        return true;
+      }
+      const { declaration } = target;
+      const arity = findConstructorArity(program, declaration);
+      if (!arity) {
+        return true;
+      }
+      const argumentCount = newExpression.arguments?.length ?? 0;
+      const { min, max } = arity;
+      if (argumentCount >= min && argumentCount <= max) {
+        if (!arity.isPrivate || findAncestor(newExpression, (n): n is ts.ClassDeclaration => n === declaration)) {
+          return false;
+        }
+        return {
+          ...diagnostic,
+          code: CONSTRUCTOR_IS_PRIVATE,
+          messageText: `Constructor of class '${declaration.name?.text}' is private and only accessible within the class declaration.`
+        };
+      }
+      const expected = min === max ? `${min}` : `${min}-${max}`;
+      return {
+        ...diagnostic,
+        messageText: `Expected ${expected} arguments, but got ${argumentCount}.`
+      };
+    }
+
+    case PROPERTY_DOES_NOT_EXIST:
+    case PROPERTY_DOES_NOT_EXIST_DID_YOU_MEAN: {
+      const access = node.parent;
+      if (!ts.isIdentifier(node) || !access || !ts.isPropertyAccessExpression(access) || access.name !== node) {
+        return true;
+      }
+      const target = resolveClassOfExpression(checker, access.expression);
+      if (!target) {
+        return true;
+      }
+      const found = findGeneratedMember(program, target.declaration, node.text, target.isStatic);
+      if (!found) {
+        return true;
+      }
+      if (isMemberAccessible(checker, access, found)) {
+        return false;
+      }
+      const { accessibility } = found.member;
+      return {
+        ...diagnostic,
+        code: accessibility === 'private' ? PROPERTY_IS_PRIVATE : PROPERTY_IS_PROTECTED,
+        messageText: accessibility === 'private'
+          ? `Property '${node.text}' is private and only accessible within class '${found.info.className}'.`
+          : `Property '${node.text}' is protected and only accessible within class '${found.info.className}' and its subclasses.`
+      };
+    }
+
+    case PROPERTY_HAS_NO_INITIALIZER: {
+      const property = findAncestor(node, ts.isPropertyDeclaration);
+      const declaration = property?.parent;
+      if (!property || !declaration || !ts.isClassDeclaration(declaration) || !ts.isIdentifier(property.name)) {
+        return true;
+      }
+      const info = describeGeneratedClass(program, declaration);
+      return !info?.assignedProperties.has(property.name.text);
+    }
+
+    default:
+      return true;
+  }
+}
+
+function findClassDeclarations(sourceFile: ts.SourceFile): ts.ClassDeclaration[] {
+  const declarations: ts.ClassDeclaration[] = [];
+  function visit(node: ts.Node): void {
+    if (ts.isClassDeclaration(node)) {
+      declarations.push(node);
+    }
+    ts.forEachChild(node, visit);
+  }
+  visit(sourceFile);
+  return declarations;
+}
+
+function findAncestor<T extends ts.Node>(
+  node: ts.Node,
+  test: (node: ts.Node) => node is T
+): T | undefined {
+  let current: ts.Node | undefined = node;
+  while (current) {
+    if (test(current)) {
+      return current;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+/**
+ * Wraps a language service so that generated members are visible to the editor.
+ */
+export function decorateLanguageService(languageService: ts.LanguageService): ts.LanguageService {
+  const proxy: ts.LanguageService = Object.create(null);
+  for (const key of Object.keys(languageService) as Array<keyof ts.LanguageService>) {
+    forwardMember(proxy, languageService, key);
+  }
+
+  proxy.getSemanticDiagnostics = (fileName: string): ts.Diagnostic[] => {
+    const diagnostics = languageService.getSemanticDiagnostics(fileName);
+    const program = languageService.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    if (!program || !sourceFile) {
+      return diagnostics;
+    }
+
+    const result: ts.Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+      const resolved = resolveDiagnostic(program, sourceFile, diagnostic);
+      if (resolved === true) {
+        result.push(diagnostic);
+      } else if (resolved !== false) {
+        result.push(resolved);
+      }
+    }
+
+    for (const declaration of findClassDeclarations(sourceFile)) {
+      result.push(...(describeGeneratedClass(program, declaration)?.diagnostics ?? []));
+    }
+
+    return result;
+  };
+
+  proxy.getCompletionsAtPosition = (fileName, position, options, formattingSettings) => {
+    const completions = languageService.getCompletionsAtPosition(
+      fileName,
+      position,
+      options,
+      formattingSettings
+    );
+    const program = languageService.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    const access = sourceFile && findPropertyAccessForCompletion(sourceFile, position);
+    if (!program || !access) {
+      return completions;
+    }
+
+    const target = resolveClassOfExpression(program.getTypeChecker(), access.expression);
+    if (!target) {
+      return completions;
+    }
+
+    const existing = new Set((completions?.entries ?? []).map(e => e.name));
+    const checker = program.getTypeChecker();
+    const added: ts.CompletionEntry[] = listGeneratedMembers(program, target.declaration, target.isStatic)
+      .filter(match => !existing.has(match.member.name) && isMemberAccessible(checker, access, match))
+      .map(({ member }) => ({
+        name: member.name,
+        kind: member.kind,
+        kindModifiers: target.isStatic ? ts.ScriptElementKindModifier.staticModifier : '',
+        sortText: '11'
+      }));
+
+    if (added.length === 0) {
+      return completions;
+    }
+
+    return {
+      isGlobalCompletion: false,
+      isMemberCompletion: true,
+      isNewIdentifierLocation: false,
+      ...completions,
+      entries: [...(completions?.entries ?? []), ...added]
+    };
+  };
+
+  proxy.getCompletionEntryDetails = (fileName, position, entryName, formatOptions, source, preferences, data) => {
+    const details = languageService.getCompletionEntryDetails(
+      fileName,
+      position,
+      entryName,
+      formatOptions,
+      source,
+      preferences,
+      data
+    );
+    if (details) {
+      return details;
+    }
+
+    const program = languageService.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    const access = sourceFile && findPropertyAccessForCompletion(sourceFile, position);
+    const target = program && access
+      ? resolveClassOfExpression(program.getTypeChecker(), access.expression)
+      : undefined;
+    const found = program && target
+      ? findGeneratedMember(program, target.declaration, entryName, target.isStatic)
+      : undefined;
+    if (!found) {
+      return details;
+    }
+
+    return {
+      name: entryName,
+      kind: found.member.kind,
+      kindModifiers: target!.isStatic ? ts.ScriptElementKindModifier.staticModifier : '',
+      displayParts: createDisplayParts(found.info, found.member),
+      documentation: createDocumentation()
+    };
+  };
+
+  proxy.getQuickInfoAtPosition = (fileName, position) => {
+    const quickInfo = languageService.getQuickInfoAtPosition(fileName, position);
+
+    const program = languageService.getProgram();
+    const sourceFile = program?.getSourceFile(fileName);
+    const node = sourceFile && findNodeAtPosition(sourceFile, position);
+    const access = node?.parent;
+    if (!program || !node || !ts.isIdentifier(node) || !access || !ts.isPropertyAccessExpression(access) || access.name !== node) {
+      return quickInfo;
+    }
+
+    // Members the checker already knows about are described by TypeScript itself
+    const checker = program.getTypeChecker();
+    if (checker.getSymbolAtLocation(node)) {
+      return quickInfo;
+    }
+
+    const target = resolveClassOfExpression(checker, access.expression);
+    const found = target
+      ? findGeneratedMember(program, target.declaration, node.text, target.isStatic)
+      : undefined;
+    if (!found) {
+      return quickInfo;
+    }
+
+    return {
+      kind: found.member.kind,
+      kindModifiers: target!.isStatic ? ts.ScriptElementKindModifier.staticModifier : '',
+      textSpan: { start: node.getStart(sourceFile), length: node.getWidth(sourceFile) },
+      displayParts: createDisplayParts(found.info, found.member),
+      documentation: createDocumentation()
+    };
+  };
+
+  return proxy;
+}
+
+/**
+ * Makes a proxy member call through to the wrapped language service.
+ */
+function forwardMember<K extends keyof ts.LanguageService>(
+  proxy: ts.LanguageService,
+  languageService: ts.LanguageService,
+  key: K
+): void {
+  const original = languageService[key];
+  proxy[key] = typeof original === 'function'
+    ? (original as (...args: unknown[]) => unknown).bind(languageService) as ts.LanguageService[K]
+    : original;
+}
+
+function createDisplayParts(
+  info: GeneratedClassInfo,
+  member: GeneratedMemberInfo
+): ts.SymbolDisplayPart[] {
+  const label = member.kind === ts.ScriptElementKind.memberFunctionElement ? 'method' : 'property';
+  return [{ text: `(${label}) ${info.className}.${member.signature}`, kind: 'text' }];
+}
+
+function createDocumentation(): ts.SymbolDisplayPart[] {
+  return [{ text: 'Generated by ts-lombok at compile time.', kind: 'text' }];
+}
+
+/**
+ * Plugin factory called by tsserver.
+ * The handler pipeline is built on the typescript package this library
+ * resolves. Its SyntaxKind numbers and node guards only match the AST of a
+ * tsserver running the same TypeScript version, so with any other version
+ * the language service is left as is.
+ */
+function init(modules: { typescript: typeof ts }): ts.server.PluginModule {
+  return {
+    create(info: ts.server.PluginCreateInfo): ts.LanguageService {
+      const serverVersion = modules.typescript.versionMajorMinor;
+      if (serverVersion !== ts.versionMajorMinor) {
+        info.project.projectService.logger.info(
+          `ts-lombok: disabled, tsserver runs TypeScript ${serverVersion} but ts-lombok resolves ${ts.versionMajorMinor}.`
+        );
+        return info.languageService;
+      }
+
+      return decorateLanguageService(info.languageService);
+    }
+  };
+}
+
+export default init;
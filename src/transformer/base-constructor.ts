@@ -0,0 +1,173 @@
+import * as ts from 'typescript';
+import { TransformationContext, SuperConstructor, SuperParameter } from './context';
+import { planClassTransformation } from './visitor';
+import {
+  getConstructorProperties,
+  isOptionalArgument,
+  shouldGenerateConstructor
+} from '../generators/constructor-generator';
+
+/**
+ * Classes whose base constructor is being resolved, to stop on circular heritage.
+ */
+const resolving = new Set<ts.ClassDeclaration>();
+
+/**
+ * Resolves the constructor a class's base class exposes.
+ *
+ * When the base class is itself transformed and gets a generated constructor,
+ * its parameters are derived from its plan (including its own base class);
+ * otherwise the type checker's construct signature of the base is used.
+ *
+ * Returns undefined when the class has no `extends` clause.
+ */
+export function resolveSuperConstructor(
+  context: TransformationContext,
+  node: ts.ClassDeclaration
+): SuperConstructor | undefined {
+  const heritage = node.heritageClauses
+    ?.find(h => h.token === ts.SyntaxKind.ExtendsKeyword)
+    ?.types[0];
+  if (!heritage) {
+    return undefined;
+  }
+
+  if (resolving.has(node)) {
+    return { parameters: [], style: 'positional' };
+  }
+
+  resolving.add(node);
+  try {
+    const base = resolveBaseClassDeclaration(context.typeChecker, heritage.expression);
+    const generated = base && getGeneratedConstructor(context, base);
+    return generated ?? {
+      parameters: getConstructSignatureParameters(context, node, heritage),
+      style: 'positional'
+    };
+  } finally {
+    resolving.delete(node);
+  }
+}
+
+/**
+ * Finds the source declaration of a base class expression.
+ */
+function resolveBaseClassDeclaration(
+  checker: ts.TypeChecker,
+  expression: ts.Expression
+): ts.ClassDeclaration | undefined {
+  let symbol = checker.getSymbolAtLocation(expression);
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return symbol?.declarations?.find(ts.isClassDeclaration);
+}
+
+/**
+ * Describes the constructor ts-lombok generates for a base class,
+ * or returns undefined if the base class keeps its own constructor.
+ * Object-style constructors list the members of their object.
+ */
+function getGeneratedConstructor(
+  context: TransformationContext,
+  base: ts.ClassDeclaration
+): SuperConstructor | undefined {
+  // Diagnostics belong to the base class and are reported when it is transformed itself
+  const baseContext = new TransformationContext(context.program, context.factory);
+  const transformation = planClassTransformation(baseContext, base);
+  if (!transformation || !shouldGenerateConstructor(transformation.plan)) {
+    return undefined;
+  }
+
+  const { plan } = transformation;
+  const isReadableField = (name: string) => plan.properties.some(p => p.name === name && !p.isPrivate);
+  const inherited = (plan.constructorType === 'none' ? [] : plan.superParameters ?? [])
+    .map(param => ({ ...param, hasField: param.hasField || isReadableField(param.name) }));
+  const own = getConstructorProperties(plan)
+    .filter(p => !inherited.some(s => s.name === p.name))
+    .map(p => ({
+      name: p.name,
+      type: getPropertyTypeNode(context, base, p.name),
+      isOptional: isOptionalArgument(p),
+      isRest: false,
+      hasField: !p.isPrivate
+    }));
+
+  return { parameters: [...inherited, ...own], style: plan.constructorStyle };
+}
+
+/**
+ * Rebuilds the type of a base class property so it can be printed in another class.
+ */
+function getPropertyTypeNode(
+  context: TransformationContext,
+  base: ts.ClassDeclaration,
+  name: string
+): ts.TypeNode | undefined {
+  // References to the base's type parameters have no meaning in the derived class
+  if (base.typeParameters) {
+    return undefined;
+  }
+
+  const declaration = base.members.find(
+    (m): m is ts.PropertyDeclaration =>
+      ts.isPropertyDeclaration(m) && ts.isIdentifier(m.name) && m.name.text === name
+  );
+  if (!declaration) {
+    return undefined;
+  }
+
+  const checker = context.typeChecker;
+  return checker.typeToTypeNode(
+    checker.getTypeAtLocation(declaration.name),
+    base,
+    ts.NodeBuilderFlags.NoTruncation
+  );
+}
+
+/**
+ * Gets the parameters of the base class's first construct signature.
+ */
+function getConstructSignatureParameters(
+  context: TransformationContext,
+  node: ts.ClassDeclaration,
+  heritage: ts.ExpressionWithTypeArguments
+): SuperParameter[] {
+  const checker = context.typeChecker;
+  const baseType = checker.getTypeAtLocation(heritage.expression);
+  const [signature] = checker.getSignaturesOfType(baseType, ts.SignatureKind.Construct);
+  if (!signature) {
+    return [];
+  }
+
+  // Types mentioning the base's own type parameters cannot be written in the derived class
+  const isGeneric = (signature.getTypeParameters()?.length ?? 0) > 0;
+  const instanceType = checker.getTypeAtLocation(heritage);
+
+  return signature.getParameters().map((parameter, index) => {
+    const declaration = parameter.valueDeclaration;
+    const isParameter = declaration !== undefined && ts.isParameter(declaration);
+    const type = checker.getTypeOfSymbolAtLocation(parameter, heritage);
+    const name = isParameter && ts.isIdentifier(declaration.name) ? declaration.name.text : `arg${index}`;
+
+    return {
+      name,
+      type: isGeneric
+        ? undefined
+        : checker.typeToTypeNode(type, node, ts.NodeBuilderFlags.NoTruncation),
+      isOptional: isParameter && (declaration.questionToken !== undefined || declaration.initializer !== undefined),
+      isRest: isParameter && declaration.dotDotDotToken !== undefined,
+      hasField: isParameter && hasReadableField(checker.getPropertyOfType(instanceType, name))
+    };
+  });
+}
+
+/**
+ * Whether a base class member is a field or getter a derived class can read.
+ */
+function hasReadableField(member: ts.Symbol | undefined): boolean {
+  if (!member || !(member.flags & (ts.SymbolFlags.Property | ts.SymbolFlags.GetAccessor))) {
+    return false;
+  }
+  return !member.declarations?.some(d => ts.getCombinedModifierFlags(d) & ts.ModifierFlags.Private);
+}
@@ -1,11 +1,44 @@
 import * as ts from 'typescript';
-import { PropertyInfo } from '../utils/decorator-utils';
+import { DecoratorOptions, PropertyInfo } from '../utils/decorator-utils';
+import { createDiagnostic, DiagnosticCode } from './diagnostics';
 
 /**
  * Constructor generation type.
  */
 export type ConstructorType = 'none' | 'all' | 'required';
 
+/**
+ * How a generated constructor takes its arguments: one parameter per field,
+ * or a single object with a member per field.
+ */
+export const CONSTRUCTOR_STYLES = ['positional', 'object'] as const;
+
+export type ConstructorStyle = typeof CONSTRUCTOR_STYLES[number];
+
+/**
+ * A parameter of the base class constructor that a generated constructor
+ * takes first and forwards through super(...).
+ */
+export interface SuperParameter {
+  name: string;
+  type: ts.TypeNode | undefined;
+  isOptional: boolean;
+  isRest: boolean;
+
+  /** Whether the base class keeps it in a same-named field the derived class can read, as withX() does */
+  hasField: boolean;
+}
+
+/**
+ * The constructor of a base class, as seen by a generated constructor.
+ */
+export interface SuperConstructor {
+  parameters: SuperParameter[];
+
+  /** 'object' when the base takes its parameters as members of one object */
+  style: ConstructorStyle;
+}
+
 /**
  * Represents a planned transformation for a class.
  */
@@ -19,24 +52,48 @@ export interface TransformationPlan {
   /** Properties to include in transformation */
   properties: PropertyInfo[];
 
+  /** Properties with a lazy getter; their fields are removed and computed on first access */
+  lazyProperties: PropertyInfo[];
+
   /** Decorators found on the class */
   decorators: string[];
 
+  /** Parameters of the base class constructor, or undefined if the class has no base class */
+  superParameters: SuperParameter[] | undefined;
+
+  /** How the base class constructor takes its parameters */
+  superConstructorStyle: ConstructorStyle;
+
+  /** Options passed to each class decorator, keyed by decorator name */
+  decoratorOptions: Record<string, DecoratorOptions>;
+
   /** Whether to generate a constructor */
   generateConstructor: boolean;
 
   /** Type of constructor to generate */
   constructorType: ConstructorType;
 
+  /** How the generated constructor takes its arguments */
+  constructorStyle: ConstructorStyle;
+
+  /** Name of a static factory method; the generated constructor becomes private */
+  staticConstructorName: string | undefined;
+
   /** Whether to freeze the instance */
   freezeInstance: boolean;
 
+  /** Whether a parameterless user constructor runs inside the generated one */
+  compactConstructor: boolean;
+
   /** Whether to make properties readonly */
   makeReadonly: boolean;
 
   /** Whether to generate toString() */
   generateToString: boolean;
 
+  /** Whether to generate util.inspect.custom and Symbol.toStringTag */
+  generateInspect: boolean;
+
   /** Whether to generate equals() */
   generateEquals: boolean;
 
@@ -82,12 +139,20 @@ export function createDefaultPlan(
     classDeclaration,
     className: classDeclaration.name?.text || 'Anonymous',
     properties,
+    lazyProperties: [],
     decorators: [],
+    superParameters: undefined,
+    superConstructorStyle: 'positional',
+    decoratorOptions: {},
     generateConstructor: false,
     constructorType: 'all',
+    constructorStyle: 'positional',
+    staticConstructorName: undefined,
     freezeInstance: false,
+    compactConstructor: false,
     makeReadonly: false,
     generateToString: false,
+    generateInspect: false,
     generateEquals: false,
     generateHashCode: false,
     generateWithMethods: false,
@@ -101,6 +166,21 @@ export function createDefaultPlan(
   };
 }
 
+/**
+ * Gets the effective options of a decorator for one property.
+ * Options given on the property override the class-level ones.
+ */
+export function getPropertyOptions(
+  plan: TransformationPlan,
+  property: PropertyInfo,
+  decoratorName: string
+): DecoratorOptions {
+  return {
+    ...plan.decoratorOptions[decoratorName],
+    ...property.decoratorOptions[decoratorName]
+  };
+}
+
 /**
  * Transformation context that holds state during transformation.
  */
@@ -108,11 +188,18 @@ export class TransformationContext {
   private readonly _program: ts.Program;
   private readonly _factory: ts.NodeFactory;
   private readonly _typeChecker: ts.TypeChecker;
+  private readonly _diagnostics: ts.Diagnostic[] = [];
+  private readonly _onDiagnostic?: (diagnostic: ts.Diagnostic) => void;
 
-  constructor(program: ts.Program, factory: ts.NodeFactory) {
+  constructor(
+    program: ts.Program,
+    factory: ts.NodeFactory,
+    onDiagnostic?: (diagnostic: ts.Diagnostic) => void
+  ) {
     this._program = program;
     this._factory = factory;
     this._typeChecker = program.getTypeChecker();
+    this._onDiagnostic = onDiagnostic;
   }
 
   get program(): ts.Program {
@@ -127,6 +214,35 @@ export class TransformationContext {
     return this._typeChecker;
   }
 
+  /** Diagnostics reported so far */
+  get diagnostics(): readonly ts.Diagnostic[] {
+    return this._diagnostics;
+  }
+
+  /**
+   * Reports a problem found while transforming a class.
+   */
+  reportDiagnostic(
+    node: ts.Node,
+    code: DiagnosticCode,
+    message: string,
+    category: ts.DiagnosticCategory = ts.DiagnosticCategory.Error
+  ): void {
+    const diagnostic = createDiagnostic(node, code, message, category);
+    this._diagnostics.push(diagnostic);
+    this._onDiagnostic?.(diagnostic);
+  }
+
+  /**
+   * Checks whether the type checker sees a node's type as boolean,
+   * ignoring null and undefined.
+   */
+  isBooleanType(node: ts.Node): boolean {
+    const type = this._typeChecker.getNonNullableType(this._typeChecker.getTypeAtLocation(node));
+    const types = type.isUnion() ? type.types : [type];
+    return types.length > 0 && types.every(t => (t.flags & ts.TypeFlags.BooleanLike) !== 0);
+  }
+
   /**
    * Creates a transformation plan based on decorators.
    */
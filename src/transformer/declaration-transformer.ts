@@ -0,0 +1,366 @@
+import * as ts from 'typescript';
+import { TransformationContext } from './context';
+import { TransformerConfig } from './transformer-factory';
+import { isLazyProperty, planClassTransformation } from './visitor';
+import { collectGeneratedMembers } from './generated-members';
+import { PropertyInfo } from '../utils/decorator-utils';
+
+/**
+ * Modifiers that are allowed on class members in declaration files.
+ */
+const DECLARATION_MEMBER_MODIFIERS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.PublicKeyword,
+  ts.SyntaxKind.ProtectedKeyword,
+  ts.SyntaxKind.PrivateKeyword,
+  ts.SyntaxKind.StaticKeyword,
+  ts.SyntaxKind.ReadonlyKeyword,
+  ts.SyntaxKind.AbstractKeyword
+]);
+
+/**
+ * Creates the ts-lombok declaration transformer.
+ *
+ * Runs after declaration emit and adds the signatures of everything the
+ * emit transformer generates (constructors, methods, companion classes)
+ * to the .d.ts output, so that consumers of a published library can use them.
+ *
+ * Usage in tsconfig.json:
+ * ```json
+ * {
+ *   "compilerOptions": {
+ *     "plugins": [
+ *       { "transform": "ts-lombok-kit" },
+ *       { "transform": "ts-lombok-kit", "import": "createDeclarationTransformer", "afterDeclarations": true }
+ *     ]
+ *   }
+ * }
+ * ```
+ *
+ * @param program The TypeScript program
+ * @param config Optional configuration
+ * @returns A transformer factory for declaration files
+ */
+export function createDeclarationTransformer(
+  program: ts.Program,
+  config?: TransformerConfig
+): ts.TransformerFactory<ts.SourceFile | ts.Bundle> {
+  const verbose = config?.verbose ?? false;
+
+  return (tsContext: ts.TransformationContext): ts.Transformer<ts.SourceFile | ts.Bundle> => {
+    const context = new TransformationContext(program, tsContext.factory);
+    const factory = tsContext.factory;
+
+    const visitor: ts.Visitor = (node: ts.Node): ts.VisitResult<ts.Node> => {
+      if (ts.isClassDeclaration(node)) {
+        return transformDeclarationClass(factory, context, node) ?? node;
+      }
+
+      // Classes can only appear at the top level or inside namespaces
+      if (ts.isModuleDeclaration(node) || ts.isModuleBlock(node)) {
+        return ts.visitEachChild(node, visitor, tsContext);
+      }
+
+      return node;
+    };
+
+    const transformSourceFile = (sourceFile: ts.SourceFile): ts.SourceFile => {
+      const result = ts.visitEachChild(sourceFile, visitor, tsContext);
+
+      if (verbose && result !== sourceFile) {
+        console.log(`[ts-lombok] Transformed declarations: ${sourceFile.fileName}`);
+      }
+
+      return result;
+    };
+
+    return (node: ts.SourceFile | ts.Bundle): ts.SourceFile | ts.Bundle => {
+      if (ts.isBundle(node)) {
+        return factory.updateBundle(node, node.sourceFiles.map(transformSourceFile));
+      }
+      return transformSourceFile(node);
+    };
+  };
+}
+
+/**
+ * Adds generated member signatures to a class in a declaration file.
+ */
+function transformDeclarationClass(
+  factory: ts.NodeFactory,
+  context: TransformationContext,
+  node: ts.ClassDeclaration
+): ts.Statement[] | undefined {
+  // Declaration emit drops decorators, so plan against the source class
+  const original = ts.getOriginalNode(node, ts.isClassDeclaration);
+  if (!original || original === node) {
+    return undefined;
+  }
+
+  const transformation = planClassTransformation(context, original);
+  if (!transformation) {
+    return undefined;
+  }
+
+  const { plan, handlers } = transformation;
+
+  // Properties without annotations get the types inferred by declaration emit
+  const declaredTypes = new Map<string, ts.TypeNode>();
+  for (const member of node.members) {
+    if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name) && member.type) {
+      declaredTypes.set(member.name.text, member.type);
+    }
+  }
+  const withDeclaredType = (p: PropertyInfo) => (p.type ? p : { ...p, type: declaredTypes.get(p.name) });
+  plan.properties = plan.properties.map(withDeclaredType);
+  plan.lazyProperties = plan.lazyProperties.map(withDeclaredType);
+
+  const generated = collectGeneratedMembers(factory, plan, handlers);
+  const newMembers: ts.ClassElement[] = [];
+
+  for (const member of node.members) {
+    if (ts.isConstructorDeclaration(member)) {
+      // The emit transformer replaces user constructors when generating one
+      if (!generated.constructorDeclaration) {
+        newMembers.push(member);
+      }
+    } else if (ts.isPropertyDeclaration(member) && isLazyProperty(plan, member)) {
+      // Lazy getters replace their fields
+      continue;
+    } else if (ts.isPropertyDeclaration(member) && plan.makeReadonly) {
+      newMembers.push(makeReadonlySignature(factory, member));
+    } else {
+      newMembers.push(member);
+    }
+  }
+
+  if (generated.constructorDeclaration) {
+    newMembers.unshift(toDeclarationMember(factory, generated.constructorDeclaration));
+  }
+
+  for (const member of toDeclarationMembers(factory, generated.members)) {
+    newMembers.push(member);
+  }
+
+  const updated = factory.updateClassDeclaration(
+    node,
+    node.modifiers,
+    node.name,
+    node.typeParameters,
+    node.heritageClauses,
+    newMembers
+  );
+
+  const isTopLevel = ts.isSourceFile(original.parent);
+  const statements = generated.statements.map(statement =>
+    ts.isClassDeclaration(statement)
+      ? toDeclarationClass(factory, statement, isTopLevel)
+      : statement
+  );
+
+  return [updated, ...statements];
+}
+
+/**
+ * Converts a generated companion class into an ambient class declaration.
+ */
+function toDeclarationClass(
+  factory: ts.NodeFactory,
+  declaration: ts.ClassDeclaration,
+  isTopLevel: boolean
+): ts.ClassDeclaration {
+  const modifiers = [...(ts.getModifiers(declaration) || [])];
+  if (isTopLevel && !modifiers.some(m => m.kind === ts.SyntaxKind.DeclareKeyword)) {
+    modifiers.push(factory.createModifier(ts.SyntaxKind.DeclareKeyword));
+  }
+
+  return factory.createClassDeclaration(
+    modifiers,
+    declaration.name,
+    declaration.typeParameters,
+    declaration.heritageClauses,
+    toDeclarationMembers(factory, declaration.members)
+  );
+}
+
+/**
+ * Converts generated members into signatures. Declaration files leave out
+ * the implementation of overloaded methods and list private members once.
+ * Members keyed by a call such as Symbol.for(...) cannot be declared and
+ * are left out; well-known symbols such as Symbol.toStringTag are kept.
+ * Private static helpers, such as _hash(), are left out too: a subclass
+ * generating the same helper would clash with the base class's declaration.
+ */
+function toDeclarationMembers(
+  factory: ts.NodeFactory,
+  members: readonly ts.ClassElement[]
+): ts.ClassElement[] {
+  const overloaded = new Set(
+    members
+      .filter(m => ts.isMethodDeclaration(m) && !m.body && ts.isIdentifier(m.name))
+      .map(m => (m.name as ts.Identifier).text)
+  );
+
+  const result: ts.ClassElement[] = [];
+  const privateNames = new Set<string>();
+  for (const member of members) {
+    const name = member.name && ts.isIdentifier(member.name) ? member.name.text : undefined;
+    if (ts.isMethodDeclaration(member) && member.body && name && overloaded.has(name)) {
+      continue;
+    }
+    if (member.name && ts.isComputedPropertyName(member.name) && ts.isCallExpression(member.name.expression)) {
+      continue;
+    }
+    const modifierKinds = (getDeclarationModifiers(member) ?? []).map(m => m.kind);
+    if (
+      ts.isMethodDeclaration(member) &&
+      modifierKinds.includes(ts.SyntaxKind.PrivateKeyword) &&
+      modifierKinds.includes(ts.SyntaxKind.StaticKeyword)
+    ) {
+      continue;
+    }
+
+    const signature = toDeclarationMember(factory, member);
+    const isPrivate = getDeclarationModifiers(signature)?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword);
+    if (isPrivate && name) {
+      if (privateNames.has(name)) {
+        continue;
+      }
+      privateNames.add(name);
+    }
+    result.push(signature);
+  }
+  return result;
+}
+
+/**
+ * Converts a generated class member into its declaration-file signature.
+ */
+function toDeclarationMember(
+  factory: ts.NodeFactory,
+  member: ts.ClassElement
+): ts.ClassElement {
+  const modifiers = getDeclarationModifiers(member);
+  const isPrivate = modifiers?.some(m => m.kind === ts.SyntaxKind.PrivateKeyword) ?? false;
+
+  if (ts.isConstructorDeclaration(member)) {
+    return factory.createConstructorDeclaration(
+      modifiers,
+      member.parameters.map(p => toDeclarationParameter(factory, p)),
+      undefined
+    );
+  }
+
+  // Declaration emit hides the signatures of private members
+  if (isPrivate && member.name) {
+    return factory.createPropertyDeclaration(modifiers, member.name, undefined, undefined, undefined);
+  }
+
+  if (ts.isMethodDeclaration(member)) {
+    return factory.createMethodDeclaration(
+      modifiers,
+      undefined,
+      member.name,
+      member.questionToken,
+      member.typeParameters,
+      member.parameters.map(p => toDeclarationParameter(factory, p)),
+      member.type ?? factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+      undefined
+    );
+  }
+
+  if (ts.isPropertyDeclaration(member)) {
+    return factory.createPropertyDeclaration(
+      modifiers,
+      member.name,
+      member.questionToken,
+      member.type ?? inferTypeFromInitializer(factory, member.initializer),
+      undefined
+    );
+  }
+
+  if (ts.isGetAccessorDeclaration(member)) {
+    return factory.createGetAccessorDeclaration(
+      modifiers,
+      member.name,
+      [],
+      member.type ?? factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+      undefined
+    );
+  }
+
+  if (ts.isSetAccessorDeclaration(member)) {
+    return factory.createSetAccessorDeclaration(
+      modifiers,
+      member.name,
+      member.parameters.map(p => toDeclarationParameter(factory, p)),
+      undefined
+    );
+  }
+
+  return member;
+}
+
+function getDeclarationModifiers(node: ts.Node): ts.Modifier[] | undefined {
+  if (!ts.canHaveModifiers(node)) {
+    return undefined;
+  }
+  const modifiers = (ts.getModifiers(node) || []).filter(m =>
+    DECLARATION_MEMBER_MODIFIERS.has(m.kind)
+  );
+  return modifiers.length > 0 ? modifiers : undefined;
+}
+
+/**
+ * Strips initializers; a parameter with a default value becomes optional.
+ */
+function toDeclarationParameter(
+  factory: ts.NodeFactory,
+  parameter: ts.ParameterDeclaration
+): ts.ParameterDeclaration {
+  const questionToken = parameter.questionToken
+    ?? (parameter.initializer ? factory.createToken(ts.SyntaxKind.QuestionToken) : undefined);
+
+  return factory.createParameterDeclaration(
+    getDeclarationModifiers(parameter),
+    parameter.dotDotDotToken,
+    parameter.name,
+    questionToken,
+    parameter.type,
+    undefined
+  );
+}
+
+/**
+ * Generated fields such as `log = console` carry no annotation; use `typeof console`.
+ */
+function inferTypeFromInitializer(
+  factory: ts.NodeFactory,
+  initializer: ts.Expression | undefined
+): ts.TypeNode {
+  if (initializer && ts.isIdentifier(initializer)) {
+    return factory.createTypeQueryNode(factory.createIdentifier(initializer.text));
+  }
+  return factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+}
+
+/**
+ * Adds a readonly modifier to a property signature.
+ */
+function makeReadonlySignature(
+  factory: ts.NodeFactory,
+  property: ts.PropertyDeclaration
+): ts.PropertyDeclaration {
+  const modifiers = ts.getModifiers(property) || [];
+  if (modifiers.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)) {
+    return property;
+  }
+
+  return factory.updatePropertyDeclaration(
+    property,
+    [...modifiers, factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)],
+    property.name,
+    property.questionToken,
+    property.type,
+    property.initializer
+  );
+}
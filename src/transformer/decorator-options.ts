@@ -0,0 +1,115 @@
+import * as ts from 'typescript';
+import { TransformationContext } from './context';
+import { DiagnosticCode } from './diagnostics';
+import { OptionKind, OptionSchema } from '../handlers/base-handler';
+import {
+  DecoratorOptions,
+  OptionValue,
+  getDecoratorArguments,
+  getDecoratorName,
+  parseDecoratorOptions
+} from '../utils/decorator-utils';
+
+/**
+ * Parses a decorator's options and checks them against the handler's schema.
+ * Problems are reported as diagnostics and the offending options are dropped.
+ */
+export function resolveDecoratorOptions(
+  context: TransformationContext,
+  decorator: ts.Decorator,
+  schema: OptionSchema = {}
+): DecoratorOptions {
+  const name = getDecoratorName(decorator) ?? 'decorator';
+  const { options, errors } = parseDecoratorOptions(decorator);
+
+  for (const error of errors) {
+    context.reportDiagnostic(
+      error.node,
+      DiagnosticCode.InvalidDecoratorOptions,
+      `@${name}: ${error.message}`
+    );
+  }
+
+  const resolved: DecoratorOptions = {};
+  for (const [key, value] of Object.entries(options)) {
+    const node = findOptionNode(decorator, key) ?? decorator;
+    const kind = schema[key];
+
+    if (kind === undefined) {
+      const known = Object.keys(schema);
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.UnknownDecoratorOption,
+        known.length > 0
+          ? `@${name}: Unknown option '${key}'. Known options: ${known.join(', ')}.`
+          : `@${name}: Unknown option '${key}'. This decorator takes no options.`
+      );
+      continue;
+    }
+
+    if (!matchesOptionKind(value, kind)) {
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.InvalidDecoratorOptionValue,
+        `@${name}: Option '${key}' must be ${describeOptionKind(kind)}.`
+      );
+      continue;
+    }
+
+    resolved[key] = value;
+  }
+
+  return resolved;
+}
+
+function matchesOptionKind(value: OptionValue, kind: OptionKind | readonly string[]): boolean {
+  if (Array.isArray(kind)) {
+    return typeof value === 'string' && kind.includes(value);
+  }
+
+  switch (kind) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number';
+    case 'string[]':
+      return Array.isArray(value) && value.every(v => typeof v === 'string');
+    default:
+      return false;
+  }
+}
+
+function describeOptionKind(kind: OptionKind | readonly string[]): string {
+  if (Array.isArray(kind)) {
+    return `one of ${kind.map(k => `'${k}'`).join(', ')}`;
+  }
+
+  switch (kind) {
+    case 'boolean':
+      return 'a boolean';
+    case 'string':
+      return 'a string';
+    case 'number':
+      return 'a number';
+    case 'string[]':
+      return 'an array of strings';
+    default:
+      return String(kind);
+  }
+}
+
+/**
+ * Finds the `key: value` entry for an option so diagnostics point at it.
+ */
+function findOptionNode(decorator: ts.Decorator, key: string): ts.Node | undefined {
+  const [argument] = getDecoratorArguments(decorator);
+  if (!argument || !ts.isObjectLiteralExpression(argument)) {
+    return undefined;
+  }
+
+  return argument.properties.find(
+    p => p.name !== undefined && (ts.isIdentifier(p.name) || ts.isStringLiteral(p.name)) && p.name.text === key
+  );
+}
@@ -0,0 +1,42 @@
+import * as ts from 'typescript';
+
+/**
+ * Diagnostic codes reported by the ts-lombok transformer.
+ * They live in a range TypeScript does not use.
+ */
+export const DiagnosticCode = {
+  InvalidDecoratorOptions: 90001,
+  UnknownDecoratorOption: 90002,
+  InvalidDecoratorOptionValue: 90003,
+  IneffectiveDecorator: 90004,
+  AccessorConflict: 90005,
+  MissingSuperArguments: 90006,
+  InvalidCompactConstructor: 90007,
+  InvalidPropertyOrder: 90008,
+  UnsupportedDeclaration: 90009,
+  UnforwardableArgument: 90010
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCode[keyof typeof DiagnosticCode];
+
+/**
+ * Creates a diagnostic attached to a source node.
+ */
+export function createDiagnostic(
+  node: ts.Node,
+  code: DiagnosticCode,
+  message: string,
+  category: ts.DiagnosticCategory = ts.DiagnosticCategory.Error
+): ts.Diagnostic {
+  const sourceFile = node.getSourceFile();
+
+  return {
+    file: sourceFile,
+    start: node.getStart(sourceFile),
+    length: node.getWidth(sourceFile),
+    messageText: message,
+    category,
+    code,
+    source: 'ts-lombok'
+  };
+}
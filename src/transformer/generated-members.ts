@@ -0,0 +1,153 @@
+import * as ts from 'typescript';
+import { TransformationPlan } from './context';
+import { DecoratorHandler } from '../handlers/base-handler';
+import { getComputedMemberName, hasMethod } from '../utils/decorator-utils';
+import {
+  generateConstructor,
+  generateStaticConstructor,
+  getCompactConstructor,
+  shouldGenerateConstructor
+} from '../generators/constructor-generator';
+import { generateFreezeStatement } from '../generators/freeze-generator';
+
+/**
+ * Members and statements produced for a class by the handler pipeline.
+ */
+export interface GeneratedMembers {
+  /** Generated constructor, if any */
+  constructorDeclaration: ts.ConstructorDeclaration | undefined;
+
+  /** Generated class members not shadowed by user-written ones */
+  members: ts.ClassElement[];
+
+  /** Companion statements emitted next to the class */
+  statements: ts.Statement[];
+
+  /** User-written members that keep a generated get/set accessor from being added */
+  conflicts: AccessorConflict[];
+}
+
+/**
+ * A generated accessor dropped because the class already has a property
+ * or method of the same name.
+ */
+export interface AccessorConflict {
+  accessor: ts.GetAccessorDeclaration | ts.SetAccessorDeclaration;
+  existing: ts.ClassElement;
+}
+
+/**
+ * Runs the handlers' generators for a plan and collects their output.
+ *
+ * Shared by the emit transformer and the language service plugin so that
+ * both agree on exactly which members a class ends up with.
+ */
+export function collectGeneratedMembers(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  handlers: DecoratorHandler[]
+): GeneratedMembers {
+  const originalClass = plan.classDeclaration;
+
+  // Generate constructor if needed
+  let constructorDeclaration: ts.ConstructorDeclaration | undefined;
+  if (shouldGenerateConstructor(plan)) {
+    // The body of a compact constructor runs once the fields are assigned
+    const additionalStatements: ts.Statement[] = [
+      ...(getCompactConstructor(plan)?.body?.statements ?? [])
+    ];
+
+    if (plan.freezeInstance) {
+      additionalStatements.push(generateFreezeStatement(factory));
+    }
+
+    constructorDeclaration = generateConstructor(factory, plan, additionalStatements);
+  }
+
+  // Let handlers generate their members
+  const members: ts.ClassElement[] = [];
+  const conflicts: AccessorConflict[] = [];
+  const generatedNames = new Set<string>();
+
+  // The static factory of a private constructor, e.g. User.of(...)
+  if (constructorDeclaration && plan.staticConstructorName && !hasMethod(originalClass, plan.staticConstructorName)) {
+    const staticConstructor = generateStaticConstructor(factory, plan, constructorDeclaration);
+    members.push(staticConstructor);
+    generatedNames.add(getMemberKey(staticConstructor, plan.staticConstructorName));
+  }
+  for (const handler of handlers) {
+    const generated = handler.generateMembers(factory, plan);
+    const handlerNames = new Set<string>();
+    for (const member of generated) {
+      const computedName = getComputedMemberName(member.name);
+      // Only add if no existing method with same name, and only once when
+      // several handlers (e.g. @Data and @Getter) generate the same method.
+      // Overloads of one method come from a single handler and are kept together.
+      if (ts.isMethodDeclaration(member) && ts.isIdentifier(member.name)) {
+        const key = getMemberKey(member, member.name.text);
+        if (hasMethod(originalClass, member.name.text) || generatedNames.has(key)) {
+          continue;
+        }
+        handlerNames.add(key);
+      } else if ((ts.isGetAccessorDeclaration(member) || ts.isSetAccessorDeclaration(member)) && ts.isIdentifier(member.name)) {
+        // A user accessor of the same kind replaces the generated one;
+        // a property or method with the accessor's name is a conflict,
+        // unless it is the field of a lazy getter, which is removed
+        const name = member.name.text;
+        const existing = originalClass.members.filter(
+          m => m.name !== undefined && ts.isIdentifier(m.name) && m.name.text === name &&
+            !plan.lazyProperties.some(p => p.name === name && ts.isPropertyDeclaration(m))
+        );
+        const conflict = existing.find(m => !ts.isGetAccessorDeclaration(m) && !ts.isSetAccessorDeclaration(m));
+        if (conflict) {
+          conflicts.push({ accessor: member, existing: conflict });
+          continue;
+        }
+
+        const key = getMemberKey(member, name);
+        if (existing.some(m => m.kind === member.kind) || generatedNames.has(key)) {
+          continue;
+        }
+        handlerNames.add(key);
+      } else if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
+        const key = getMemberKey(member, member.name.text);
+        if (generatedNames.has(key)) {
+          continue;
+        }
+        handlerNames.add(key);
+      } else if (computedName !== undefined) {
+        // Symbol-keyed members, e.g. [Symbol.toStringTag]: a user-written
+        // member with the same key replaces the generated one
+        const key = getMemberKey(member, computedName);
+        if (originalClass.members.some(m => getComputedMemberName(m.name) === computedName) || generatedNames.has(key)) {
+          continue;
+        }
+        handlerNames.add(key);
+      }
+      members.push(member);
+    }
+    handlerNames.forEach(key => generatedNames.add(key));
+  }
+
+  // Let handlers emit companion declarations (e.g. the Builder class)
+  const statements: ts.Statement[] = [];
+  for (const handler of handlers) {
+    if (handler.generateStatements) {
+      statements.push(...handler.generateStatements(factory, plan));
+    }
+  }
+
+  return { constructorDeclaration, members, statements, conflicts };
+}
+
+/**
+ * Distinguishes static and instance members, and getters and setters, that share a name.
+ */
+function getMemberKey(member: ts.ClassElement, name: string): string {
+  const isStatic = (ts.canHaveModifiers(member) ? ts.getModifiers(member) || [] : [])
+    .some(m => m.kind === ts.SyntaxKind.StaticKeyword);
+  const key = ts.isGetAccessorDeclaration(member)
+    ? `get ${name}`
+    : ts.isSetAccessorDeclaration(member) ? `set ${name}` : name;
+  return isStatic ? `static ${key}` : key;
+}
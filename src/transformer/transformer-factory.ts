@@ -10,22 +10,33 @@ export interface TransformerConfig {
   verbose?: boolean;
 }
 
+/**
+ * Extras passed by ts-patch as the third argument of a transformer factory.
+ */
+export interface TransformerExtras {
+  /** Adds a diagnostic to the program's emit result */
+  addDiagnostic(diagnostic: ts.Diagnostic): unknown;
+}
+
 /**
  * Creates the ts-lombok transformer.
  * This is the main entry point for ts-patch integration.
  *
  * @param program The TypeScript program
  * @param config Optional configuration
+ * @param extras ts-patch extras used to report diagnostics
  * @returns A transformer factory
  */
 export function createTransformer(
   program: ts.Program,
-  config?: TransformerConfig
+  config?: TransformerConfig,
+  extras?: TransformerExtras
 ): ts.TransformerFactory<ts.SourceFile> {
   const verbose = config?.verbose ?? false;
+  const onDiagnostic = createDiagnosticReporter(extras);
 
   return (tsContext: ts.TransformationContext): ts.Transformer<ts.SourceFile> => {
-    const context = new TransformationContext(program, tsContext.factory);
+    const context = new TransformationContext(program, tsContext.factory, onDiagnostic);
 
     return (sourceFile: ts.SourceFile): ts.SourceFile => {
       if (verbose) {
@@ -44,14 +55,38 @@ export function createTransformer(
   };
 }
 
+/**
+ * Sends diagnostics to ts-patch, or prints them when running without it.
+ */
+export function createDiagnosticReporter(
+  extras?: TransformerExtras
+): (diagnostic: ts.Diagnostic) => void {
+  if (extras) {
+    return diagnostic => {
+      extras.addDiagnostic(diagnostic);
+    };
+  }
+
+  const host: ts.FormatDiagnosticsHost = {
+    getCanonicalFileName: fileName => fileName,
+    getCurrentDirectory: () => ts.sys?.getCurrentDirectory() ?? '',
+    getNewLine: () => '\n'
+  };
+
+  return diagnostic => {
+    console.warn(`[ts-lombok] ${ts.formatDiagnostic(diagnostic, host).trim()}`);
+  };
+}
+
 /**
  * Alternative factory signature for ts-patch compatibility.
  */
 export function transform(
   program: ts.Program,
-  config?: TransformerConfig
+  config?: TransformerConfig,
+  extras?: TransformerExtras
 ): ts.TransformerFactory<ts.SourceFile> {
-  return createTransformer(program, config);
+  return createTransformer(program, config, extras);
 }
 
 /**
@@ -60,7 +95,8 @@ export function transform(
  */
 export default function (
   program: ts.Program,
-  config?: TransformerConfig
+  config?: TransformerConfig,
+  extras?: TransformerExtras
 ): ts.TransformerFactory<ts.SourceFile> {
-  return createTransformer(program, config);
+  return createTransformer(program, config, extras);
 }
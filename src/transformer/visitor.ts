@@ -1,16 +1,44 @@
 import * as ts from 'typescript';
 import { TransformationContext, TransformationPlan } from './context';
 import { handlerRegistry } from '../handlers/index';
+import { DecoratorHandler } from '../handlers/base-handler';
 import {
   getKnownDecorators,
   getClassProperties,
   removeKnownDecorators,
-  hasConstructor,
-  hasMethod,
+  getDecorators,
   getDecoratorName,
-  KNOWN_PROPERTY_DECORATORS
+  getDecoratorArguments,
+  evaluateOptionValue,
+  getUserConstructor,
+  isKnownPropertyDecorator,
+  KNOWN_PROPERTY_DECORATORS,
+  KnownPropertyDecorator,
+  DecoratorOptions,
+  OptionError,
+  PropertyInfo
 } from '../utils/decorator-utils';
-import { generateConstructor } from '../generators/constructor-generator';
+import { collectGeneratedMembers, GeneratedMembers } from './generated-members';
+import { resolveDecoratorOptions } from './decorator-options';
+import { DiagnosticCode } from './diagnostics';
+import { resolveSuperConstructor } from './base-constructor';
+import {
+  getAccessLevel,
+  getAccessorBaseName,
+  getAccessorStyle,
+  getBuilderProperties,
+  getGetterProperties,
+  getSetterProperties,
+  usesNativeAccessor
+} from '../generators/method-generator';
+import { ACCESS_LEVELS } from '../utils/ast-helpers';
+import {
+  getCompactConstructor,
+  getOptionalPropertiesBeforeRequired,
+  getUnforwardableParameters,
+  getUnforwardableSuperParameters,
+  shouldGenerateConstructor
+} from '../generators/constructor-generator';
 import { generateFreezeStatement } from '../generators/freeze-generator';
 
 /**
@@ -22,7 +50,7 @@ export function createVisitor(
 ): ts.Visitor {
   const factory = tsContext.factory;
 
-  const visitor: ts.Visitor = (node: ts.Node): ts.Node => {
+  const visitor: ts.Visitor = (node: ts.Node): ts.VisitResult<ts.Node> => {
     // Process class declarations
     if (ts.isClassDeclaration(node)) {
       const transformed = transformClass(factory, context, node);
@@ -39,13 +67,20 @@ export function createVisitor(
 }
 
 /**
- * Transforms a class declaration if it has relevant decorators.
+ * The plan for a decorated class together with the handlers that built it.
  */
-function transformClass(
-  factory: ts.NodeFactory,
+export interface ClassTransformation {
+  plan: TransformationPlan;
+  handlers: DecoratorHandler[];
+}
+
+/**
+ * Builds the transformation plan for a class if it has relevant decorators.
+ */
+export function planClassTransformation(
   context: TransformationContext,
   node: ts.ClassDeclaration
-): ts.ClassDeclaration | undefined {
+): ClassTransformation | undefined {
   // Get decorators we handle
   const decorators = getKnownDecorators(node);
 
@@ -55,46 +90,698 @@ function transformClass(
   // Check if we have any property decorators to process
   const hasPropertyDecorators = properties.some(p => p.decorators.length > 0);
 
-  if (decorators.length === 0 && !hasPropertyDecorators) {
+  if (decorators.length === 0 && !hasPropertyDecorators && getConstructorParameterDecorators(node).length === 0) {
     return undefined; // No transformation needed
   }
 
+  // Generated code refers to the class by name, e.g. in build() and lazy getters
+  if (!node.name) {
+    context.reportDiagnostic(
+      getDecorators(node)[0] ?? node,
+      DiagnosticCode.UnsupportedDeclaration,
+      'ts-lombok decorators need a named class; name the class to generate its members.'
+    );
+    return undefined;
+  }
+
   // Create transformation plan
   const plan = context.createPlan(node, properties, decorators);
 
+  // Generated constructors of derived classes forward the base constructor's parameters
+  const superConstructor = resolveSuperConstructor(context, node);
+  plan.superParameters = superConstructor?.parameters;
+  plan.superConstructorStyle = superConstructor?.style ?? 'positional';
+
+  // Evaluate decorator options such as @ToString({ exclude: ['password'] })
+  for (const decorator of getDecorators(node)) {
+    const name = getDecoratorName(decorator);
+    if (name && (decorators as string[]).includes(name)) {
+      plan.decoratorOptions[name] = resolveDecoratorOptions(
+        context,
+        decorator,
+        handlerRegistry.get(name)?.options
+      );
+      checkStaticName(context, decorator, name, plan.decoratorOptions[name]);
+      checkCallSuper(context, decorator, name, plan);
+      checkIncludeFieldNames(context, decorator, name, plan.decoratorOptions[name]);
+    }
+  }
+
+  // Evaluate options of property decorators such as @Getter on a single field
+  resolvePropertyDecoratorOptions(context, plan);
+
+  // Properties without a type annotation may still hold booleans, e.g. `active = !archived`
+  for (const property of plan.properties) {
+    const declaration = findPropertyDeclaration(plan, property);
+    if (!property.type && declaration) {
+      property.isBoolean = context.isBooleanType(declaration.name);
+    }
+  }
+
+  // @Getter({ lazy: true }) fields leave the regular property list
+  splitLazyProperties(context, plan);
+
+  // @Order(n) positions take precedence over the declaration order
+  orderProperties(context, plan);
+
+  // Property-level decorators with a handler (e.g. @Getter) run it as well;
+  // handlers tell them apart from class-level usage through plan.decorators
+  const propertyHandlerNames = [...plan.properties, ...plan.lazyProperties]
+    .flatMap(p => p.decorators)
+    .filter(name => handlerRegistry.has(name) && !(decorators as string[]).includes(name));
+  const handlerNames = [...new Set([...decorators, ...propertyHandlerNames])];
+
   // Get handlers and let them modify the plan
-  const handlers = handlerRegistry.getHandlersForDecorators(decorators);
+  const handlers = handlerRegistry.getHandlersForDecorators(handlerNames);
   for (const handler of handlers) {
     handler.modifyPlan(plan);
   }
 
+  reportUnforwardableParameters(context, plan);
+  reportUnforwardableSuperParameters(context, plan);
+  reportAccessorConflicts(context, plan);
+  reportMissingSuperArguments(context, plan);
+  reportOptionalPropertiesBeforeRequired(context, plan);
+  reportInvalidCompactConstructor(context, plan);
+
+  return { plan, handlers };
+}
+
+/**
+ * Drops a `staticName` option that cannot name a method.
+ */
+function checkStaticName(
+  context: TransformationContext,
+  decorator: ts.Decorator,
+  decoratorName: string,
+  options: DecoratorOptions
+): void {
+  const staticName = options.staticName;
+  if (typeof staticName === 'string' && !/^[A-Za-z_$][\w$]*$/.test(staticName)) {
+    context.reportDiagnostic(
+      decorator,
+      DiagnosticCode.InvalidDecoratorOptionValue,
+      `@${decoratorName}: Option 'staticName' must be a valid method name, got '${staticName}'.`
+    );
+    delete options.staticName;
+  }
+}
+
+/**
+ * Drops a `callSuper` option on a class without a superclass.
+ */
+function checkCallSuper(
+  context: TransformationContext,
+  decorator: ts.Decorator,
+  decoratorName: string,
+  plan: TransformationPlan
+): void {
+  const options = plan.decoratorOptions[decoratorName];
+  const hasSuperclass = plan.classDeclaration.heritageClauses?.some(
+    clause => clause.token === ts.SyntaxKind.ExtendsKeyword
+  );
+  if (options.callSuper === true && !hasSuperclass) {
+    context.reportDiagnostic(
+      decorator,
+      DiagnosticCode.InvalidDecoratorOptionValue,
+      `@${decoratorName}: Option 'callSuper' requires '${plan.className}' to extend another class.`
+    );
+    delete options.callSuper;
+  }
+}
+
+/**
+ * Drops `includeFieldNames: false` on JSON output, whose keys are the field names.
+ */
+function checkIncludeFieldNames(
+  context: TransformationContext,
+  decorator: ts.Decorator,
+  decoratorName: string,
+  options: DecoratorOptions
+): void {
+  if (options.format === 'json' && options.includeFieldNames === false) {
+    context.reportDiagnostic(
+      decorator,
+      DiagnosticCode.InvalidDecoratorOptionValue,
+      `@${decoratorName}: Option 'includeFieldNames' cannot be false with format 'json'.`
+    );
+    delete options.includeFieldNames;
+  }
+}
+
+/**
+ * Reports a generated no-args constructor whose base constructor needs arguments.
+ */
+function reportMissingSuperArguments(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  if (!shouldGenerateConstructor(plan) || plan.constructorType !== 'none') {
+    return;
+  }
+
+  const required = (plan.superParameters ?? []).filter(p => !p.isOptional && !p.isRest);
+  if (required.length > 0) {
+    context.reportDiagnostic(
+      plan.classDeclaration.name ?? plan.classDeclaration,
+      DiagnosticCode.MissingSuperArguments,
+      `@NoArgsConstructor: the base class of '${plan.className}' requires constructor arguments (${required.map(p => p.name).join(', ')}).`
+    );
+  }
+}
+
+/**
+ * Reports parameters of a kept user-written constructor that withX() and
+ * build() cannot pass on; such a class gets neither a Builder nor withX().
+ */
+function reportUnforwardableParameters(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  const features = [
+    ...(plan.generateBuilder ? ['@Builder'] : []),
+    ...(plan.generateWithMethods || plan.properties.some(p => p.hasWith) ? ['withX() methods'] : [])
+  ];
+  const parameters = getUnforwardableParameters(plan);
+  if (features.length === 0 || parameters.length === 0) {
+    return;
+  }
+
+  for (const parameter of parameters) {
+    const description = ts.isIdentifier(parameter.name) && !parameter.dotDotDotToken
+      ? `parameter '${parameter.name.text}' is not stored in a field of the same name`
+      : `${parameter.dotDotDotToken ? 'rest' : 'destructured'} parameters cannot be read back from a field`;
+    context.reportDiagnostic(
+      parameter,
+      DiagnosticCode.UnforwardableArgument,
+      `${features.join(' and ')} cannot pass on the constructor arguments of '${plan.className}': ${description}.`
+    );
+  }
+  plan.generateBuilder = false;
+}
+
+/**
+ * Reports base constructor parameters that withX() cannot read back from a
+ * field; such a class gets no withX() methods.
+ */
+function reportUnforwardableSuperParameters(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  if (!plan.generateWithMethods && !plan.properties.some(p => p.hasWith)) {
+    return;
+  }
+
+  const names = getUnforwardableSuperParameters(plan).map(param => `'${param.name}'`);
+  if (names.length > 0) {
+    context.reportDiagnostic(
+      plan.classDeclaration.name ?? plan.classDeclaration,
+      DiagnosticCode.UnforwardableArgument,
+      `withX() methods cannot pass on the base constructor arguments of '${plan.className}': ` +
+        `${names.join(', ')} ${names.length === 1 ? 'is' : 'are'} not stored in a readable field of the same name.`
+    );
+  }
+}
+
+/**
+ * Warns about optional fields that a generated constructor takes ahead of a
+ * required one, as callers cannot leave them out.
+ */
+function reportOptionalPropertiesBeforeRequired(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  for (const { optional, required } of getOptionalPropertiesBeforeRequired(plan)) {
+    context.reportDiagnostic(
+      findPropertyDeclaration(plan, optional)?.name ?? plan.classDeclaration,
+      DiagnosticCode.InvalidPropertyOrder,
+      `'${optional.name}' is optional but comes before the required field '${required.name}', ` +
+        `so the constructor of '${plan.className}' takes it as a required parameter that accepts undefined. ` +
+        `Declare it after the required fields or place it with @Order.`,
+      ts.DiagnosticCategory.Warning
+    );
+  }
+}
+
+/**
+ * Reports user-written constructors of records that cannot be merged into
+ * the generated constructor, and compact constructors that return early.
+ */
+function reportInvalidCompactConstructor(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  if (!plan.generateConstructor || !plan.compactConstructor) {
+    return;
+  }
+
+  const constructors = plan.classDeclaration.members.filter(ts.isConstructorDeclaration);
+  if (constructors.length === 0) {
+    return;
+  }
+
+  // A constructor declaring the fields through parameter properties is kept as written
+  if (isCanonicalConstructor(plan)) {
+    return;
+  }
+
+  const compact = getCompactConstructor(plan);
+  if (!compact) {
+    const [first] = constructors;
+    const parameters = constructors
+      .flatMap(c => c.parameters.filter(p => !ts.isParameterPropertyDeclaration(p, c)))
+      .map(p => p.name.getText());
+    context.reportDiagnostic(
+      first,
+      DiagnosticCode.InvalidCompactConstructor,
+      parameters.length > 0
+        ? `The constructor of '${plan.className}' declares parameters (${parameters.join(', ')}) that conflict with the generated constructor. ` +
+          'Write a compact constructor without parameters to validate or normalise the fields; no constructor is generated.'
+        : `The compact constructor of '${plan.className}' cannot be overloaded; no constructor is generated.`
+    );
+    return;
+  }
+
+  for (const statement of findReturnStatements(compact.body!)) {
+    context.reportDiagnostic(
+      statement,
+      DiagnosticCode.InvalidCompactConstructor,
+      `A compact constructor cannot return; '${plan.className}' would not be frozen.`
+    );
+  }
+}
+
+/**
+ * Finds the return statements of a function body, outside nested functions and classes.
+ */
+function findReturnStatements(body: ts.Block): ts.ReturnStatement[] {
+  const result: ts.ReturnStatement[] = [];
+  const visit = (node: ts.Node): void => {
+    if (ts.isReturnStatement(node)) {
+      result.push(node);
+    } else if (!ts.isFunctionLike(node) && !ts.isClassLike(node)) {
+      ts.forEachChild(node, visit);
+    }
+  };
+  ts.forEachChild(body, visit);
+  return result;
+}
+
+/**
+ * Reports fluent and native accessors, and builder methods, that cannot be
+ * generated as requested.
+ */
+function reportAccessorConflicts(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  for (const property of plan.properties) {
+    const declaration = findPropertyDeclaration(plan, property);
+    const node = declaration?.name ?? plan.classDeclaration;
+    const wantsGetter = plan.generateGetters || property.hasGetter;
+    const wantsSetter = (plan.generateSetters || property.hasSetter) && !property.isReadonly;
+    const getterAccess = getAccessLevel(plan, property, 'Getter');
+    const setterAccess = getAccessLevel(plan, property, 'Setter');
+    const isNative = (wantsGetter && usesNativeAccessor(plan, property, 'Getter')) ||
+      (wantsSetter && usesNativeAccessor(plan, property, 'Setter'));
+
+    if (isNative) {
+      if (getAccessorBaseName(plan, property) === property.name) {
+        context.reportDiagnostic(
+          node,
+          DiagnosticCode.AccessorConflict,
+          `Native accessors for '${property.name}' need a backing field with a prefix, e.g. '_${property.name}'.`
+        );
+      } else if (
+        usesNativeAccessor(plan, property, 'Getter') &&
+        usesNativeAccessor(plan, property, 'Setter') &&
+        getGetterProperties(plan).includes(property) &&
+        getSetterProperties(plan).includes(property) &&
+        ACCESS_LEVELS.indexOf(getterAccess) > ACCESS_LEVELS.indexOf(setterAccess)
+      ) {
+        context.reportDiagnostic(
+          node,
+          DiagnosticCode.AccessorConflict,
+          `The native getter of '${property.name}' must be at least as accessible as its setter ` +
+            `(getter is ${getterAccess}, setter is ${setterAccess}).`
+        );
+      }
+      continue;
+    }
+
+    if (!getAccessorStyle(plan, property).fluent) {
+      continue;
+    }
+
+    if ((wantsGetter || wantsSetter) && getAccessorBaseName(plan, property) === property.name) {
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.AccessorConflict,
+        `@Accessors: Fluent accessors for '${property.name}' would have the same name as the field. ` +
+          `Rename the field with a prefix such as '_' and list it in the prefix option.`
+      );
+      continue;
+    }
+
+    if (
+      getGetterProperties(plan).includes(property) &&
+      getSetterProperties(plan).includes(property) &&
+      getterAccess !== setterAccess
+    ) {
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.AccessorConflict,
+        `@Accessors: The fluent getter and setter of '${property.name}' are one method and need the same access level ` +
+          `(getter is ${getterAccess}, setter is ${setterAccess}).`
+      );
+    }
+  }
+
+  if (!plan.generateBuilder) {
+    return;
+  }
+
+  const builderProperties = getBuilderProperties(plan);
+  for (const property of plan.properties.filter(p => !builderProperties.includes(p))) {
+    const methodName = getAccessorBaseName(plan, property);
+    context.reportDiagnostic(
+      findPropertyDeclaration(plan, property)?.name ?? plan.classDeclaration,
+      DiagnosticCode.AccessorConflict,
+      `@Builder: The builder method for '${property.name}' would clash with ${methodName}(). Rename the field.`
+    );
+  }
+}
+
+/**
+ * Moves properties with a lazy getter from plan.properties to plan.lazyProperties,
+ * so constructors, with-methods, builders, equals and toString leave them out.
+ */
+function splitLazyProperties(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  if (plan.decoratorOptions.Getter?.lazy !== undefined) {
+    const decorator = getDecorators(plan.classDeclaration).find(d => getDecoratorName(d) === 'Getter');
+    context.reportDiagnostic(
+      decorator ?? plan.classDeclaration,
+      DiagnosticCode.InvalidDecoratorOptionValue,
+      `@Getter: Option 'lazy' can only be used on properties.`
+    );
+  }
+
+  for (const property of plan.properties) {
+    if (property.decoratorOptions.Getter?.lazy !== true) {
+      continue;
+    }
+
+    const node = findPropertyDeclaration(plan, property)?.name ?? plan.classDeclaration;
+    if (!property.initializer) {
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.InvalidDecoratorOptionValue,
+        `@Getter: Lazy property '${property.name}' needs an initializer to compute its value.`
+      );
+      continue;
+    }
+
+    if (property.hasSetter) {
+      context.reportDiagnostic(
+        node,
+        DiagnosticCode.AccessorConflict,
+        `@Setter: Lazy property '${property.name}' is computed once and cannot have a setter.`
+      );
+    }
+
+    plan.lazyProperties.push(property);
+  }
+
+  plan.properties = plan.properties.filter(p => !plan.lazyProperties.includes(p));
+}
+
+/**
+ * Finds the declaration of a property in the planned class.
+ */
+function findPropertyDeclaration(
+  plan: TransformationPlan,
+  property: PropertyInfo
+): ts.PropertyDeclaration | ts.ParameterDeclaration | undefined {
+  if (property.isParameterProperty) {
+    return getUserConstructor(plan.classDeclaration)?.parameters.find(
+      p => ts.isIdentifier(p.name) && p.name.text === property.name
+    );
+  }
+
+  return plan.classDeclaration.members.find(
+    (m): m is ts.PropertyDeclaration =>
+      ts.isPropertyDeclaration(m) && ts.isIdentifier(m.name) && m.name.text === property.name
+  );
+}
+
+/**
+ * Fills in PropertyInfo.decoratorOptions and reports misplaced property decorators.
+ */
+function resolvePropertyDecoratorOptions(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  for (const member of plan.classDeclaration.members) {
+    if (!ts.isPropertyDeclaration(member) || !ts.isIdentifier(member.name)) {
+      continue;
+    }
+
+    const property = plan.properties.find(p => p.name === (member.name as ts.Identifier).text);
+    if (!property) {
+      continue;
+    }
+
+    for (const decorator of getDecorators(member)) {
+      const name = getDecoratorName(decorator);
+      if (!name || !KNOWN_PROPERTY_DECORATORS.includes(name as KnownPropertyDecorator)) {
+        continue;
+      }
+
+      if (name === 'Order') {
+        resolvePropertyPosition(context, decorator, property);
+        continue;
+      }
+
+      property.decoratorOptions[name] = resolveDecoratorOptions(
+        context,
+        decorator,
+        handlerRegistry.get(name)?.options
+      );
+
+      for (const option of ['exclude', 'onlyExplicitlyIncluded', 'callSuper']) {
+        if (name === 'Equals' && property.decoratorOptions.Equals[option] !== undefined) {
+          context.reportDiagnostic(
+            decorator,
+            DiagnosticCode.InvalidDecoratorOptionValue,
+            `@Equals: Option '${option}' can only be used on classes.`
+          );
+          delete property.decoratorOptions.Equals[option];
+        }
+      }
+
+      const showLast = property.decoratorOptions[name].showLast;
+      if (name === 'Sensitive' && showLast !== undefined && !(Number.isInteger(showLast) && (showLast as number) > 0)) {
+        context.reportDiagnostic(
+          decorator,
+          DiagnosticCode.InvalidDecoratorOptionValue,
+          `@Sensitive: Option 'showLast' must be a positive integer, got ${showLast}.`
+        );
+        delete property.decoratorOptions.Sensitive.showLast;
+      }
+
+      if (name === 'Setter' && property.isReadonly) {
+        context.reportDiagnostic(
+          decorator,
+          DiagnosticCode.IneffectiveDecorator,
+          `@Setter has no effect on readonly property '${property.name}'.`,
+          ts.DiagnosticCategory.Warning
+        );
+      }
+
+      const exclusion = name.replace(/\.Include$/, '.Exclude');
+      if (exclusion !== name && property.decorators.includes(exclusion)) {
+        context.reportDiagnostic(
+          decorator,
+          DiagnosticCode.IneffectiveDecorator,
+          `@${name} has no effect on '${property.name}' because it is also marked @${exclusion}.`,
+          ts.DiagnosticCategory.Warning
+        );
+      }
+    }
+  }
+
+  // Property decorators only apply to fields; transformUserConstructor strips them from parameters
+  for (const decorator of getConstructorParameterDecorators(plan.classDeclaration)) {
+    const parameter = decorator.parent as ts.ParameterDeclaration;
+    const field = ts.isIdentifier(parameter.name) ? ` Declare '${parameter.name.text}' as a field to use it.` : '';
+    context.reportDiagnostic(
+      decorator,
+      DiagnosticCode.UnsupportedDeclaration,
+      `@${getDecoratorName(decorator)} is not supported on constructor parameters.${field}`
+    );
+  }
+}
+
+/**
+ * Gets the ts-lombok property decorators written on parameters of the user's
+ * constructor, e.g. `constructor(@Sensitive private pin: string)`.
+ */
+function getConstructorParameterDecorators(node: ts.ClassDeclaration): ts.Decorator[] {
+  return (getUserConstructor(node)?.parameters ?? [])
+    .flatMap(p => getDecorators(p))
+    .filter(isKnownPropertyDecorator);
+}
+
+/**
+ * Reads the position of `@Order(n)`, which must be a non-negative integer literal.
+ */
+function resolvePropertyPosition(
+  context: TransformationContext,
+  decorator: ts.Decorator,
+  property: PropertyInfo
+): void {
+  const args = getDecoratorArguments(decorator);
+  const errors: OptionError[] = [];
+  const position = args.length === 1 ? evaluateOptionValue(args[0], errors) : undefined;
+
+  if (typeof position === 'number' && Number.isInteger(position) && position >= 0) {
+    property.position = position;
+    return;
+  }
+
+  context.reportDiagnostic(
+    args[0] ?? decorator,
+    DiagnosticCode.InvalidPropertyOrder,
+    `@Order on '${property.name}' expects a single non-negative integer literal, e.g. @Order(0).`
+  );
+}
+
+/**
+ * Sorts the fields by their @Order positions, which then fix the parameter order
+ * of the generated constructor, withX() and the output of toString(). Once one
+ * field has a position every field needs one, and the positions must run from
+ * 0 without gaps or duplicates.
+ */
+function orderProperties(
+  context: TransformationContext,
+  plan: TransformationPlan
+): void {
+  if (!plan.properties.some(p => p.position !== undefined)) {
+    return;
+  }
+
+  const nodeOf = (property: PropertyInfo): ts.Node =>
+    findPropertyDeclaration(plan, property)?.name ?? plan.classDeclaration;
+
+  const missing = plan.properties.filter(p => p.position === undefined);
+  for (const property of missing) {
+    context.reportDiagnostic(
+      nodeOf(property),
+      DiagnosticCode.InvalidPropertyOrder,
+      `Field '${property.name}' of '${plan.className}' needs an @Order position because other fields have one.`
+    );
+  }
+
+  const byPosition = new Map<number, PropertyInfo>();
+  for (const property of plan.properties) {
+    if (property.position === undefined) {
+      continue;
+    }
+
+    const existing = byPosition.get(property.position);
+    if (existing) {
+      context.reportDiagnostic(
+        nodeOf(property),
+        DiagnosticCode.InvalidPropertyOrder,
+        `Fields '${existing.name}' and '${property.name}' of '${plan.className}' both have @Order position ${property.position}.`
+      );
+    } else {
+      byPosition.set(property.position, property);
+    }
+  }
+
+  if (missing.length === 0) {
+    for (let position = 0; position < plan.properties.length; position++) {
+      if (!byPosition.has(position)) {
+        context.reportDiagnostic(
+          plan.classDeclaration.name ?? plan.classDeclaration,
+          DiagnosticCode.InvalidPropertyOrder,
+          `No field of '${plan.className}' has @Order position ${position}; positions must run from 0 to ${plan.properties.length - 1}.`
+        );
+      }
+    }
+  }
+
+  // Stable sort; fields without a position keep their order after the others
+  const positionOf = (p: PropertyInfo) => p.position ?? Number.MAX_SAFE_INTEGER;
+  plan.properties = [...plan.properties].sort((a, b) => positionOf(a) - positionOf(b));
+}
+
+/**
+ * Transforms a class declaration if it has relevant decorators.
+ * Returns the transformed class followed by any companion statements.
+ */
+function transformClass(
+  factory: ts.NodeFactory,
+  context: TransformationContext,
+  node: ts.ClassDeclaration
+): ts.Statement[] | undefined {
+  const transformation = planClassTransformation(context, node);
+  if (!transformation) {
+    return undefined;
+  }
+
   // Execute the transformation
-  return executeTransformation(factory, plan, handlers, node);
+  const { plan, handlers } = transformation;
+  const generated = collectGeneratedMembers(factory, plan, handlers);
+  const transformed = executeTransformation(context, factory, plan, generated, node);
+
+  return [transformed, ...generated.statements];
 }
 
 /**
  * Executes the transformation based on the plan.
  */
 function executeTransformation(
+  context: TransformationContext,
   factory: ts.NodeFactory,
   plan: TransformationPlan,
-  handlers: ReturnType<typeof handlerRegistry.getHandlersForDecorators>,
+  generated: GeneratedMembers,
   originalClass: ts.ClassDeclaration
 ): ts.ClassDeclaration {
   const newMembers: ts.ClassElement[] = [];
 
-  // Transform existing properties to readonly if needed and strip property decorators
+  // Generated get/set accessors never replace user properties or methods
+  for (const { accessor, existing } of generated.conflicts) {
+    const name = (accessor.name as ts.Identifier).text;
+    const kind = ts.isGetAccessorDeclaration(accessor) ? 'getter' : 'setter';
+    context.reportDiagnostic(
+      existing.name ?? existing,
+      DiagnosticCode.AccessorConflict,
+      `Cannot generate ${kind} '${name}' for class '${plan.className}': ` +
+        `the class already declares a ${ts.isMethodDeclaration(existing) ? 'method' : 'property'} named '${name}'.`
+    );
+  }
+
+  // Transform existing properties to readonly if needed and strip property decorators;
+  // fields of lazy getters are dropped, their initializers moved into the getter
   for (const member of originalClass.members) {
-    if (ts.isPropertyDeclaration(member)) {
+    if (ts.isPropertyDeclaration(member) && isLazyProperty(plan, member)) {
+      continue;
+    } else if (ts.isPropertyDeclaration(member)) {
       let transformed = stripPropertyDecorators(factory, member);
       if (plan.makeReadonly) {
         transformed = makePropertyReadonly(factory, transformed);
       }
       newMembers.push(transformed);
     } else if (ts.isConstructorDeclaration(member)) {
-      // Skip existing constructor if we're generating one
-      if (!plan.generateConstructor) {
-        newMembers.push(member);
+      // Keep the user's constructor unless the generated one replaces
+      // (or, for a compact constructor, absorbs) it
+      if (!generated.constructorDeclaration) {
+        newMembers.push(transformUserConstructor(factory, plan, member));
       }
     } else if (ts.isMethodDeclaration(member)) {
       // Keep existing methods (they take precedence over generated ones)
@@ -104,32 +791,11 @@ function executeTransformation(
     }
   }
 
-  // Generate constructor if needed
-  if (plan.generateConstructor && !hasConstructor(originalClass)) {
-    const additionalStatements: ts.Statement[] = [];
-
-    if (plan.freezeInstance) {
-      additionalStatements.push(generateFreezeStatement(factory));
-    }
-
-    const constructor = generateConstructor(factory, plan, additionalStatements);
-    newMembers.unshift(constructor);
+  if (generated.constructorDeclaration) {
+    newMembers.unshift(generated.constructorDeclaration);
   }
 
-  // Let handlers generate their members
-  for (const handler of handlers) {
-    const generated = handler.generateMembers(factory, plan);
-    for (const member of generated) {
-      // Only add if no existing method with same name
-      if (ts.isMethodDeclaration(member) && ts.isIdentifier(member.name)) {
-        if (!hasMethod(originalClass, member.name.text)) {
-          newMembers.push(member);
-        }
-      } else {
-        newMembers.push(member);
-      }
-    }
-  }
+  newMembers.push(...generated.members);
 
   // Remove our decorators, keep others
   const modifiers = removeKnownDecorators(factory, originalClass);
@@ -145,6 +811,104 @@ function executeTransformation(
   );
 }
 
+/**
+ * Applies readonly fields and freezing to the parameter properties of a
+ * constructor the user wrote; a canonical record constructor also freezes.
+ * Property decorators on its parameters are reported and removed.
+ */
+function transformUserConstructor(
+  factory: ts.NodeFactory,
+  plan: TransformationPlan,
+  constructor: ts.ConstructorDeclaration
+): ts.ConstructorDeclaration {
+  const parameters = constructor.parameters
+    .map(p => stripParameterDecorators(factory, p))
+    .map(p =>
+      plan.makeReadonly && ts.isParameterPropertyDeclaration(p, constructor) ? makeParameterReadonly(factory, p) : p
+    );
+
+  const body = constructor.body && plan.freezeInstance && isCanonicalConstructor(plan)
+    ? factory.updateBlock(constructor.body, [...constructor.body.statements, generateFreezeStatement(factory)])
+    : constructor.body;
+
+  return factory.updateConstructorDeclaration(
+    constructor,
+    ts.getModifiers(constructor),
+    parameters,
+    body
+  );
+}
+
+/**
+ * Adds a readonly modifier to a parameter property.
+ */
+export function makeParameterReadonly(
+  factory: ts.NodeFactory,
+  parameter: ts.ParameterDeclaration
+): ts.ParameterDeclaration {
+  const modifiers = ts.getModifiers(parameter) || [];
+  if (modifiers.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword)) {
+    return parameter;
+  }
+
+  return factory.updateParameterDeclaration(
+    parameter,
+    [...(ts.getDecorators(parameter) || []), ...modifiers, factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)],
+    parameter.dotDotDotToken,
+    parameter.name,
+    parameter.questionToken,
+    parameter.type,
+    parameter.initializer
+  );
+}
+
+/**
+ * Strips known property decorators (like @Sensitive) from a constructor parameter.
+ */
+function stripParameterDecorators(
+  factory: ts.NodeFactory,
+  parameter: ts.ParameterDeclaration
+): ts.ParameterDeclaration {
+  const existingDecorators = ts.getDecorators(parameter) || [];
+  const remainingDecorators = existingDecorators.filter(d => !isKnownPropertyDecorator(d));
+
+  if (remainingDecorators.length === existingDecorators.length) {
+    return parameter;
+  }
+
+  const newModifiers = [...remainingDecorators, ...(ts.getModifiers(parameter) || [])];
+  return factory.updateParameterDeclaration(
+    parameter,
+    newModifiers.length > 0 ? newModifiers : undefined,
+    parameter.dotDotDotToken,
+    parameter.name,
+    parameter.questionToken,
+    parameter.type,
+    parameter.initializer
+  );
+}
+
+/**
+ * Whether a generated constructor gives way to a user constructor that only
+ * takes parameter properties, e.g. `constructor(readonly x: number, readonly y: number)`.
+ */
+export function isCanonicalConstructor(plan: TransformationPlan): boolean {
+  const constructors = plan.classDeclaration.members.filter(ts.isConstructorDeclaration);
+  const constructor = getUserConstructor(plan.classDeclaration);
+
+  return constructors.length === 1 && constructor !== undefined &&
+    constructor.parameters.length > 0 &&
+    constructor.parameters.every(p => ts.isParameterPropertyDeclaration(p, constructor));
+}
+
+/**
+ * Whether a property declaration belongs to a lazy getter.
+ */
+export function isLazyProperty(plan: TransformationPlan, member: ts.PropertyDeclaration): boolean {
+  return ts.isIdentifier(member.name) &&
+    plan.lazyProperties.some(p => p.name === (member.name as ts.Identifier).text);
+}
+
 /**
  * Strips known property decorators (like @NonNull) from a property.
  */
@@ -80,6 +80,31 @@ export function createReadonlyProperty(
   );
 }
 
+/**
+ * Access levels of generated accessors; 'none' suppresses generation.
+ */
+export const ACCESS_LEVELS = ['public', 'protected', 'private', 'none'] as const;
+
+export type AccessLevel = typeof ACCESS_LEVELS[number];
+
+/**
+ * Creates the modifiers for an access level.
+ * Public members are emitted without a modifier.
+ */
+export function createAccessModifiers(
+  factory: ts.NodeFactory,
+  access: AccessLevel
+): ts.Modifier[] | undefined {
+  switch (access) {
+    case 'protected':
+      return [factory.createModifier(ts.SyntaxKind.ProtectedKeyword)];
+    case 'private':
+      return [factory.createModifier(ts.SyntaxKind.PrivateKeyword)];
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Creates a method declaration.
  */
@@ -114,146 +139,176 @@ export function createReturnStatement(
 }
 
 /**
- * Creates a template literal for toString().
- * Format: ClassName(field1=${this.field1}, field2=${this.field2})
+ * A piece of a generated toString(): literal text, or an expression
+ * rendered through a template span.
+ */
+export type TemplatePart = string | ts.Expression;
+
+/**
+ * Layouts of generated toString() output.
+ */
+export const TO_STRING_FORMATS = ['lombok', 'json', 'multiline'] as const;
+
+export type ToStringFormat = typeof TO_STRING_FORMATS[number];
+
+/**
+ * Creates a template literal for toString() from (label, value) pairs.
+ * Formats:
+ * - lombok: ClassName(field1=${this.field1}, field2=${this.field2})
+ * - multiline: the same with one field per line, indented by two spaces
+ * - json: {"field1":${...},"field2":${...}}
+ *
+ * A value may be literal text (e.g. a mask) or mix text and expressions;
+ * adjacent text is merged into the surrounding template strings.
  */
 export function createToStringTemplateLiteral(
   factory: ts.NodeFactory,
   className: string,
-  fieldNames: string[]
+  entries: Array<[string, TemplatePart | TemplatePart[]]>,
+  format: ToStringFormat = 'lombok',
+  includeFieldNames = true
 ): ts.TemplateLiteral {
-  if (fieldNames.length === 0) {
-    return factory.createNoSubstitutionTemplateLiteral(`${className}()`);
-  }
+  const [open, separator, close] =
+    format === 'json' ? ['{', ',', '}'] :
+    format === 'multiline' && entries.length > 0 ? [`${className}(\n  `, ',\n  ', '\n)'] :
+    [`${className}(`, ', ', ')'];
 
-  const spans: ts.TemplateSpan[] = [];
+  const parts: TemplatePart[] = [open];
+  entries.forEach(([label, value], index) => {
+    if (index > 0) {
+      parts.push(separator);
+    }
+    if (format === 'json') {
+      parts.push(`${JSON.stringify(label)}:`);
+    } else if (includeFieldNames) {
+      parts.push(`${label}=`);
+    }
+    parts.push(...(Array.isArray(value) ? value : [value]));
+  });
+  parts.push(close);
 
-  fieldNames.forEach((fieldName, index) => {
-    const isLast = index === fieldNames.length - 1;
-    const suffix = isLast ? ')' : ', ';
-    const nextFieldPrefix = isLast ? '' : `${fieldNames[index + 1]}=`;
+  return createTemplateLiteral(factory, parts);
+}
 
-    spans.push(
-      factory.createTemplateSpan(
-        factory.createPropertyAccessExpression(
-          factory.createThis(),
-          factory.createIdentifier(fieldName)
-        ),
-        isLast
-          ? factory.createTemplateTail(suffix)
-          : factory.createTemplateMiddle(`${suffix}${nextFieldPrefix}`)
-      )
-    );
+/**
+ * Creates a template literal for util.inspect output in Node's style:
+ * ClassName { field1: ${...}, field2: ${...} }, or ClassName {} without fields.
+ */
+export function createInspectTemplateLiteral(
+  factory: ts.NodeFactory,
+  className: string,
+  entries: Array<[string, ts.Expression]>
+): ts.TemplateLiteral {
+  if (entries.length === 0) {
+    return factory.createNoSubstitutionTemplateLiteral(`${className} {}`);
+  }
+
+  const parts: TemplatePart[] = [`${className} { `];
+  entries.forEach(([label, value], index) => {
+    parts.push(index > 0 ? `, ${label}: ` : `${label}: `, value);
   });
+  parts.push(' }');
 
-  return factory.createTemplateExpression(
-    factory.createTemplateHead(`${className}(${fieldNames[0]}=`),
-    spans
-  );
+  return createTemplateLiteral(factory, parts);
 }
 
 /**
- * Creates a simple hash code computation for a field.
+ * Creates a template literal from text and expressions, merging adjacent text.
  */
-export function createHashCodeComputation(
+function createTemplateLiteral(
   factory: ts.NodeFactory,
-  fieldNames: string[]
-): ts.Expression {
-  if (fieldNames.length === 0) {
-    return factory.createNumericLiteral(0);
-  }
+  parts: TemplatePart[]
+): ts.TemplateLiteral {
+  let head = '';
+  const spans: Array<{ expression: ts.Expression; text: string }> = [];
 
-  // Simple hash: ((field1 * 31) + field2) * 31 + field3 ...
-  let result: ts.Expression = createFieldHashExpression(factory, fieldNames[0]);
+  for (const part of parts) {
+    if (typeof part !== 'string') {
+      spans.push({ expression: part, text: '' });
+    } else if (spans.length === 0) {
+      head += part;
+    } else {
+      spans[spans.length - 1].text += part;
+    }
+  }
 
-  for (let i = 1; i < fieldNames.length; i++) {
-    result = factory.createBinaryExpression(
-      factory.createBinaryExpression(
-        result,
-        factory.createToken(ts.SyntaxKind.AsteriskToken),
-        factory.createNumericLiteral(31)
-      ),
-      factory.createToken(ts.SyntaxKind.PlusToken),
-      createFieldHashExpression(factory, fieldNames[i])
-    );
+  if (spans.length === 0) {
+    return factory.createNoSubstitutionTemplateLiteral(head);
   }
 
-  // Ensure integer result with bitwise OR 0
-  return factory.createBinaryExpression(
-    result,
-    factory.createToken(ts.SyntaxKind.BarToken),
-    factory.createNumericLiteral(0)
+  return factory.createTemplateExpression(
+    factory.createTemplateHead(head),
+    spans.map(({ expression, text }, index) =>
+      factory.createTemplateSpan(
+        expression,
+        index === spans.length - 1
+          ? factory.createTemplateTail(text)
+          : factory.createTemplateMiddle(text)
+      )
+    )
   );
 }
 
 /**
- * Creates a hash expression for a single field.
+ * Refers to a static member of a class, e.g. a helper method: `User._hash`
+ */
+export function createStaticAccess(
+  factory: ts.NodeFactory,
+  className: string,
+  memberName: string
+): ts.PropertyAccessExpression {
+  return factory.createPropertyAccessExpression(factory.createIdentifier(className), memberName);
+}
+
+/**
+ * Creates the hash code computation: the hash function applied to an
+ * array of the hashed values, `User._hash([this.id, this.name])`.
  */
-function createFieldHashExpression(
+export function createHashCodeComputation(
   factory: ts.NodeFactory,
-  fieldName: string
+  values: ts.Expression[],
+  hashFunction: ts.Expression
 ): ts.Expression {
-  // (this.field == null ? 0 : typeof this.field === 'number' ? this.field : String(this.field).length)
-  const fieldAccess = factory.createPropertyAccessExpression(
-    factory.createThis(),
-    factory.createIdentifier(fieldName)
-  );
+  if (values.length === 0) {
+    return factory.createNumericLiteral(0);
+  }
 
-  return factory.createConditionalExpression(
-    factory.createBinaryExpression(
-      fieldAccess,
-      factory.createToken(ts.SyntaxKind.EqualsEqualsToken),
-      factory.createNull()
-    ),
-    factory.createToken(ts.SyntaxKind.QuestionToken),
-    factory.createNumericLiteral(0),
-    factory.createToken(ts.SyntaxKind.ColonToken),
-    factory.createConditionalExpression(
-      factory.createBinaryExpression(
-        factory.createTypeOfExpression(fieldAccess),
-        factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-        factory.createStringLiteral('number')
-      ),
-      factory.createToken(ts.SyntaxKind.QuestionToken),
-      fieldAccess,
-      factory.createToken(ts.SyntaxKind.ColonToken),
-      factory.createPropertyAccessExpression(
-        factory.createCallExpression(
-          factory.createIdentifier('String'),
-          undefined,
-          [fieldAccess]
-        ),
-        factory.createIdentifier('length')
-      )
-    )
+  return factory.createCallExpression(
+    hashFunction,
+    undefined,
+    [factory.createArrayLiteralExpression(values)]
   );
 }
 
 /**
- * Creates an equality check expression for all fields.
+ * Creates an equality check expression for all fields. Fields listed in
+ * deepFieldNames are passed to the comparison function instead of `===`.
  */
 export function createEqualityCheck(
   factory: ts.NodeFactory,
   fieldNames: string[],
-  otherParam: string
+  otherParam: string,
+  deepFieldNames: readonly string[] = [],
+  deepEquals: ts.Expression = factory.createIdentifier('deepEquals')
 ): ts.Expression {
   if (fieldNames.length === 0) {
     return factory.createTrue();
   }
 
-  const checks = fieldNames.map(fieldName =>
-    factory.createBinaryExpression(
-      factory.createPropertyAccessExpression(
-        factory.createThis(),
-        factory.createIdentifier(fieldName)
-      ),
-      factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken),
-      factory.createPropertyAccessExpression(
-        factory.createIdentifier(otherParam),
-        factory.createIdentifier(fieldName)
-      )
-    )
-  );
+  const checks = fieldNames.map(fieldName => {
+    const own = factory.createPropertyAccessExpression(
+      factory.createThis(),
+      factory.createIdentifier(fieldName)
+    );
+    const others = factory.createPropertyAccessExpression(
+      factory.createIdentifier(otherParam),
+      factory.createIdentifier(fieldName)
+    );
+
+    return deepFieldNames.includes(fieldName)
+      ? factory.createCallExpression(deepEquals, undefined, [own, others])
+      : factory.createBinaryExpression(own, factory.createToken(ts.SyntaxKind.EqualsEqualsEqualsToken), others);
+  });
 
   return checks.reduce((acc, check) =>
     factory.createBinaryExpression(
@@ -279,9 +334,155 @@ export function createNewInstance(
   );
 }
 
+/**
+ * Creates the arguments of a constructor call from (field, value) pairs in
+ * constructor order: the values themselves, or a single object literal
+ * `{ id, name: value }` for object-style constructors.
+ */
+export function createConstructorArguments(
+  factory: ts.NodeFactory,
+  style: 'positional' | 'object',
+  entries: Array<[string, ts.Expression]>
+): ts.Expression[] {
+  if (style !== 'object') {
+    return entries.map(([, value]) => value);
+  }
+
+  const members = entries.map(([name, value]) =>
+    ts.isIdentifier(value) && value.text === name
+      ? factory.createShorthandPropertyAssignment(name)
+      : factory.createPropertyAssignment(factory.createIdentifier(name), value)
+  );
+  return [factory.createObjectLiteralExpression(members, false)];
+}
+
 /**
  * Capitalizes the first letter of a string.
  */
 export function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
+
+/**
+ * Lowercases the first letter of a string.
+ */
+export function uncapitalize(str: string): string {
+  return str.charAt(0).toLowerCase() + str.slice(1);
+}
+
+/**
+ * Shorthands for the statements of the generated helper functions.
+ */
+export function createStatementBuilders(factory: ts.NodeFactory) {
+  const id = (name: string) => factory.createIdentifier(name);
+
+  return {
+    id,
+    call: (target: ts.Expression, method: string, args: ts.Expression[] = []) =>
+      factory.createCallExpression(factory.createPropertyAccessExpression(target, method), undefined, args),
+    not: (expression: ts.Expression) =>
+      factory.createPrefixUnaryExpression(ts.SyntaxKind.ExclamationToken, expression),
+    or: (...expressions: ts.Expression[]) =>
+      expressions.reduce((acc, e) => factory.createLogicalOr(acc, e)),
+    and: (...expressions: ts.Expression[]) =>
+      expressions.reduce((acc, e) => factory.createLogicalAnd(acc, e)),
+    instanceOf: (value: ts.Expression, type: string) =>
+      factory.createBinaryExpression(value, ts.SyntaxKind.InstanceOfKeyword, id(type)),
+    typeIs: (value: ts.Expression, type: string) =>
+      factory.createStrictEquality(factory.createTypeOfExpression(value), factory.createStringLiteral(type)),
+    typeIsNot: (value: ts.Expression, type: string) =>
+      factory.createStrictInequality(factory.createTypeOfExpression(value), factory.createStringLiteral(type)),
+    returnIf: (condition: ts.Expression, result: ts.Expression) =>
+      factory.createIfStatement(condition, factory.createReturnStatement(result)),
+    // for (const binding of iterable) statement
+    forOf: (binding: ts.BindingName, iterable: ts.Expression, statement: ts.Statement) =>
+      factory.createForOfStatement(
+        undefined,
+        factory.createVariableDeclarationList([factory.createVariableDeclaration(binding)], ts.NodeFlags.Const),
+        iterable,
+        statement
+      ),
+    // for (let index = 0; index < length; index++) statement
+    forIndex: (index: ts.Identifier, length: ts.Expression, statement: ts.Statement) =>
+      factory.createForStatement(
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(index, undefined, undefined, factory.createNumericLiteral(0))],
+          ts.NodeFlags.Let
+        ),
+        factory.createLessThan(index, length),
+        factory.createPostfixIncrement(index),
+        statement
+      ),
+    // const name: T[] = (globalThis as unknown as Record<symbol, T[] | undefined>)[Symbol.for(key)] ??= [];
+    // Shared by all generated classes, so nested calls see what outer calls are visiting
+    sharedStack: (name: string, key: string, elementType: () => ts.TypeNode) => {
+      const stackType = () => factory.createArrayTypeNode(elementType());
+      const registryType = factory.createTypeReferenceNode('Record', [
+        factory.createKeywordTypeNode(ts.SyntaxKind.SymbolKeyword),
+        factory.createUnionTypeNode([stackType(), factory.createKeywordTypeNode(ts.SyntaxKind.UndefinedKeyword)])
+      ]);
+      return factory.createVariableStatement(
+        undefined,
+        factory.createVariableDeclarationList(
+          [factory.createVariableDeclaration(
+            id(name),
+            undefined,
+            stackType(),
+            factory.createBinaryExpression(
+              factory.createElementAccessExpression(
+                factory.createParenthesizedExpression(
+                  factory.createAsExpression(
+                    factory.createAsExpression(id('globalThis'), factory.createKeywordTypeNode(ts.SyntaxKind.UnknownKeyword)),
+                    registryType
+                  )
+                ),
+                factory.createCallExpression(
+                  factory.createPropertyAccessExpression(id('Symbol'), 'for'),
+                  undefined,
+                  [factory.createStringLiteral(key)]
+                )
+              ),
+              ts.SyntaxKind.QuestionQuestionEqualsToken,
+              factory.createArrayLiteralExpression([])
+            )
+          )],
+          ts.NodeFlags.Const
+        )
+      );
+    },
+    // stack.push(entry); try { statements } finally { stack.pop(); }
+    pushed: (stack: ts.Identifier, entry: ts.Expression, statements: ts.Statement[]): ts.Statement[] => [
+      factory.createExpressionStatement(
+        factory.createCallExpression(factory.createPropertyAccessExpression(stack, 'push'), undefined, [entry])
+      ),
+      factory.createTryStatement(
+        factory.createBlock(statements, true),
+        undefined,
+        factory.createBlock([
+          factory.createExpressionStatement(
+            factory.createCallExpression(factory.createPropertyAccessExpression(stack, 'pop'), undefined, [])
+          )
+        ], true)
+      )
+    ],
+    // private static name(a: any, b: any): returnType { statements }
+    helperMethod: (
+      name: string,
+      parameters: ts.Identifier[],
+      returnType: ts.KeywordTypeSyntaxKind,
+      statements: ts.Statement[]
+    ) =>
+      factory.createMethodDeclaration(
+        [factory.createModifier(ts.SyntaxKind.PrivateKeyword), factory.createModifier(ts.SyntaxKind.StaticKeyword)],
+        undefined,
+        id(name),
+        undefined,
+        undefined,
+        parameters.map(p =>
+          factory.createParameterDeclaration(undefined, undefined, p, undefined, factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword))
+        ),
+        factory.createKeywordTypeNode(returnType),
+        factory.createBlock(statements, true)
+      )
+  };
+}
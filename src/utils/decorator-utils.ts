@@ -9,15 +9,18 @@ import * as ts from 'typescript';
  */
 export const KNOWN_CLASS_DECORATORS = [
   'Record', 'Value', 'Equals', 'With',
-  'Getter', 'Setter', 'ToString', 'Data', 'Builder',
+  'Getter', 'Setter', 'ToString', 'Inspect', 'Data', 'Builder',
   'NoArgsConstructor', 'AllArgsConstructor', 'RequiredArgsConstructor',
-  'Log', 'Singleton'
+  'Log', 'Singleton', 'Accessors'
 ] as const;
 
 /**
  * Known property decorator names.
  */
-export const KNOWN_PROPERTY_DECORATORS = ['NonNull', 'Getter', 'Setter'] as const;
+export const KNOWN_PROPERTY_DECORATORS = [
+  'NonNull', 'Getter', 'Setter', 'With', 'Accessors', 'Order', 'Equals', 'Sensitive',
+  'ToString.Exclude', 'ToString.Include', 'Equals.Exclude', 'Equals.Include'
+] as const;
 
 /**
  * Known method decorator names.
@@ -57,22 +60,195 @@ export function getDecorators(node: ts.Node): readonly ts.Decorator[] {
 }
 
 /**
- * Gets the name of a decorator.
+ * Gets the name of a decorator, e.g. 'Getter' or 'ToString.Exclude'.
  */
 export function getDecoratorName(decorator: ts.Decorator): string | undefined {
-  const expression = decorator.expression;
+  const expression = ts.isCallExpression(decorator.expression)
+    ? decorator.expression.expression
+    : decorator.expression;
 
   if (ts.isIdentifier(expression)) {
     return expression.text;
   }
 
-  if (ts.isCallExpression(expression) && ts.isIdentifier(expression.expression)) {
-    return expression.expression.text;
+  if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.expression)) {
+    return `${expression.expression.text}.${expression.name.text}`;
   }
 
   return undefined;
 }
 
+/**
+ * A statically evaluated decorator option value.
+ */
+export type OptionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | OptionValue[]
+  | { [key: string]: OptionValue };
+
+/**
+ * Options passed to a decorator, e.g. `@ToString({ exclude: ['password'] })`.
+ */
+export interface DecoratorOptions {
+  [key: string]: OptionValue;
+}
+
+/**
+ * A problem found while evaluating decorator options.
+ */
+export interface OptionError {
+  node: ts.Node;
+  message: string;
+}
+
+/**
+ * Gets the arguments of a decorator written with call syntax.
+ */
+export function getDecoratorArguments(decorator: ts.Decorator): readonly ts.Expression[] {
+  const expression = decorator.expression;
+  if (ts.isCallExpression(expression)) {
+    return expression.arguments;
+  }
+  return [];
+}
+
+/**
+ * Parses the options object of a decorator.
+ * The object must be a literal that can be evaluated at compile time.
+ */
+export function parseDecoratorOptions(
+  decorator: ts.Decorator
+): { options: DecoratorOptions; errors: OptionError[] } {
+  const args = getDecoratorArguments(decorator);
+  const errors: OptionError[] = [];
+
+  if (args.length === 0) {
+    return { options: {}, errors };
+  }
+
+  if (args.length > 1) {
+    errors.push({ node: args[1], message: 'Decorator expects a single options object.' });
+  }
+
+  const argument = unwrapExpression(args[0]);
+  if (!ts.isObjectLiteralExpression(argument)) {
+    errors.push({ node: args[0], message: 'Decorator options must be an object literal.' });
+    return { options: {}, errors };
+  }
+
+  const value = evaluateOptionValue(argument, errors);
+  const options = value !== undefined && value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value
+    : {};
+
+  return { options, errors };
+}
+
+/**
+ * Statically evaluates a literal expression used as an option value.
+ * Returns undefined (and records an error) for anything that is not a literal.
+ */
+export function evaluateOptionValue(
+  expression: ts.Expression,
+  errors: OptionError[]
+): OptionValue | undefined {
+  const node = unwrapExpression(expression);
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+
+  if (ts.isNumericLiteral(node)) {
+    return Number(node.text);
+  }
+
+  if (
+    ts.isPrefixUnaryExpression(node) &&
+    node.operator === ts.SyntaxKind.MinusToken &&
+    ts.isNumericLiteral(node.operand)
+  ) {
+    return -Number(node.operand.text);
+  }
+
+  if (node.kind === ts.SyntaxKind.TrueKeyword) {
+    return true;
+  }
+
+  if (node.kind === ts.SyntaxKind.FalseKeyword) {
+    return false;
+  }
+
+  if (node.kind === ts.SyntaxKind.NullKeyword) {
+    return null;
+  }
+
+  if (ts.isArrayLiteralExpression(node)) {
+    const values: OptionValue[] = [];
+    for (const element of node.elements) {
+      const value = evaluateOptionValue(element, errors);
+      if (value !== undefined) {
+        values.push(value);
+      }
+    }
+    return values;
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const result: { [key: string]: OptionValue } = {};
+    for (const property of node.properties) {
+      if (!ts.isPropertyAssignment(property)) {
+        errors.push({ node: property, message: 'Only `key: value` entries are supported in decorator options.' });
+        continue;
+      }
+
+      const key = getStaticPropertyName(property.name);
+      if (key === undefined) {
+        errors.push({ node: property.name, message: 'Decorator option names must be static.' });
+        continue;
+      }
+
+      const value = evaluateOptionValue(property.initializer, errors);
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  errors.push({
+    node: expression,
+    message: 'Decorator option values must be literals that can be evaluated at compile time.'
+  });
+  return undefined;
+}
+
+/**
+ * Unwraps parentheses and type assertions such as `as const`.
+ * `satisfies` only exists from TypeScript 4.9, so its guard may be missing.
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression?.(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function getStaticPropertyName(name: ts.PropertyName): string | undefined {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return undefined;
+}
+
 /**
  * Checks if a decorator is one of the known class decorators.
  */
@@ -120,6 +296,12 @@ export function removeKnownDecorators(
   return [...remainingDecorators, ...modifiers];
 }
 
+/**
+ * Whether a field is explicitly included in or excluded from a generated
+ * method, e.g. by @ToString.Include or @ToString.Exclude.
+ */
+export type FieldInclusion = 'include' | 'exclude';
+
 /**
  * Information about a class property.
  */
@@ -129,21 +311,65 @@ export interface PropertyInfo {
   isOptional: boolean;
   isReadonly: boolean;
   hasInitializer: boolean;
+  initializer: ts.Expression | undefined;
   isPrivate: boolean;
   isNonNull: boolean;
+  /** Whether the property holds a boolean, possibly also null or undefined */
+  isBoolean: boolean;
   hasGetter: boolean;
   hasSetter: boolean;
+  hasWith: boolean;
+  /** Whether the field is declared by a constructor parameter, e.g. `constructor(readonly id: number)` */
+  isParameterProperty: boolean;
+  /** Set by @ToString.Include / @ToString.Exclude */
+  toStringInclusion: FieldInclusion | undefined;
+  /** Set by @Equals.Include / @Equals.Exclude, for equals() and hashCode() */
+  equalsInclusion: FieldInclusion | undefined;
+  /** Position pinned with `@Order(n)`, filled in while planning */
+  position: number | undefined;
   modifiers: ts.ModifierLike[];
   decorators: string[];
+  /** Options passed to property decorators, keyed by decorator name */
+  decoratorOptions: Record<string, DecoratorOptions>;
+}
+
+/**
+ * Checks whether a type annotation is `boolean`, a boolean literal, or a union
+ * of those with `null` / `undefined`, e.g. `boolean | undefined`.
+ */
+export function isBooleanTypeNode(type: ts.TypeNode): boolean {
+  if (ts.isParenthesizedTypeNode(type)) {
+    return isBooleanTypeNode(type.type);
+  }
+
+  if (ts.isUnionTypeNode(type)) {
+    const nonNullable = type.types.filter(t => !isNullishTypeNode(t));
+    return nonNullable.length > 0 && nonNullable.every(isBooleanTypeNode);
+  }
+
+  return type.kind === ts.SyntaxKind.BooleanKeyword ||
+    (ts.isLiteralTypeNode(type) &&
+      (type.literal.kind === ts.SyntaxKind.TrueKeyword || type.literal.kind === ts.SyntaxKind.FalseKeyword));
+}
+
+function isNullishTypeNode(type: ts.TypeNode): boolean {
+  return type.kind === ts.SyntaxKind.UndefinedKeyword ||
+    (ts.isLiteralTypeNode(type) && type.literal.kind === ts.SyntaxKind.NullKeyword);
 }
 
 /**
  * Extracts property information from a class declaration.
+ * Parameter properties of the constructor are included where the constructor
+ * appears among the members.
  */
 export function getClassProperties(node: ts.ClassDeclaration): PropertyInfo[] {
   const properties: PropertyInfo[] = [];
 
   for (const member of node.members) {
+    if (ts.isConstructorDeclaration(member) && member.body) {
+      properties.push(...getParameterProperties(member));
+    }
+
     if (ts.isPropertyDeclaration(member) && ts.isIdentifier(member.name)) {
       const modifiers = ts.getModifiers(member) || [];
       const propertyDecorators = ts.getDecorators(member) || [];
@@ -164,12 +390,22 @@ export function getClassProperties(node: ts.ClassDeclaration): PropertyInfo[] {
         isOptional: member.questionToken !== undefined,
         isReadonly: modifiers.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword),
         hasInitializer: member.initializer !== undefined,
+        initializer: member.initializer,
         isPrivate: modifiers.some(m => m.kind === ts.SyntaxKind.PrivateKeyword),
         isNonNull: decoratorNames.includes('NonNull'),
+        isBoolean: member.type
+          ? isBooleanTypeNode(member.type)
+          : isBooleanLiteral(member.initializer),
         hasGetter: decoratorNames.includes('Getter'),
         hasSetter: decoratorNames.includes('Setter'),
+        hasWith: decoratorNames.includes('With'),
+        isParameterProperty: false,
+        toStringInclusion: getFieldInclusion(decoratorNames, 'ToString'),
+        equalsInclusion: getFieldInclusion(decoratorNames, 'Equals'),
+        position: undefined,
         modifiers: [...propertyDecorators, ...modifiers],
-        decorators: decoratorNames
+        decorators: decoratorNames,
+        decoratorOptions: {}
       });
     }
   }
@@ -177,6 +413,58 @@ export function getClassProperties(node: ts.ClassDeclaration): PropertyInfo[] {
   return properties;
 }
 
+/**
+ * Reads @X.Include / @X.Exclude from a field's decorators; Exclude wins.
+ */
+function getFieldInclusion(decoratorNames: string[], decoratorName: string): FieldInclusion | undefined {
+  if (decoratorNames.includes(`${decoratorName}.Exclude`)) {
+    return 'exclude';
+  }
+  return decoratorNames.includes(`${decoratorName}.Include`) ? 'include' : undefined;
+}
+
+/**
+ * Extracts the fields declared by constructor parameters such as
+ * `private readonly id: number`. Their default values are not field
+ * initializers, and parameter decorators are not property decorators.
+ */
+function getParameterProperties(constructor: ts.ConstructorDeclaration): PropertyInfo[] {
+  return constructor.parameters
+    .filter(p => ts.isParameterPropertyDeclaration(p, constructor) && ts.isIdentifier(p.name))
+    .map(parameter => {
+      const modifiers = ts.getModifiers(parameter) || [];
+
+      return {
+        name: (parameter.name as ts.Identifier).text,
+        type: parameter.type,
+        isOptional: parameter.questionToken !== undefined,
+        isReadonly: modifiers.some(m => m.kind === ts.SyntaxKind.ReadonlyKeyword),
+        hasInitializer: false,
+        initializer: undefined,
+        isPrivate: modifiers.some(m => m.kind === ts.SyntaxKind.PrivateKeyword),
+        isNonNull: false,
+        isBoolean: parameter.type
+          ? isBooleanTypeNode(parameter.type)
+          : isBooleanLiteral(parameter.initializer),
+        hasGetter: false,
+        hasSetter: false,
+        hasWith: false,
+        isParameterProperty: true,
+        toStringInclusion: undefined,
+        equalsInclusion: undefined,
+        position: undefined,
+        modifiers: [...modifiers],
+        decorators: [],
+        decoratorOptions: {}
+      };
+    });
+}
+
+function isBooleanLiteral(expression: ts.Expression | undefined): boolean {
+  return expression?.kind === ts.SyntaxKind.TrueKeyword ||
+    expression?.kind === ts.SyntaxKind.FalseKeyword;
+}
+
 /**
  * Gets only required properties (not optional, no initializer).
  */
@@ -209,6 +497,54 @@ export function getConstructor(
   );
 }
 
+/**
+ * Gets the implementation of a user-written constructor, skipping overload signatures.
+ */
+export function getUserConstructor(
+  node: ts.ClassDeclaration
+): ts.ConstructorDeclaration | undefined {
+  return node.members.find(
+    (m): m is ts.ConstructorDeclaration => ts.isConstructorDeclaration(m) && m.body !== undefined
+  );
+}
+
+/**
+ * Gets the text of a symbol-keyed member name, e.g. 'Symbol.toStringTag'
+ * or 'Symbol.for("nodejs.util.inspect.custom")'. Undefined for other names.
+ */
+export function getComputedMemberName(name: ts.PropertyName | undefined): string | undefined {
+  if (!name || !ts.isComputedPropertyName(name)) {
+    return undefined;
+  }
+
+  const expression = name.expression;
+  if (ts.isCallExpression(expression)) {
+    const callee = getEntityNameText(expression.expression);
+    const [argument] = expression.arguments;
+    return callee && expression.arguments.length === 1 && ts.isStringLiteralLike(argument)
+      ? `${callee}(${JSON.stringify(argument.text)})`
+      : undefined;
+  }
+
+  return getEntityNameText(expression);
+}
+
+/**
+ * Gets the text of a dotted name such as Symbol.toStringTag.
+ */
+function getEntityNameText(expression: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expression)) {
+    return expression.text;
+  }
+
+  if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.name)) {
+    const object = getEntityNameText(expression.expression);
+    return object && `${object}.${expression.name.text}`;
+  }
+
+  return undefined;
+}
+
 /**
  * Checks if a class has an existing method with a given name.
  */
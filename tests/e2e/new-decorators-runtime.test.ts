@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as ts from 'typescript';
 import * as vm from 'vm';
+import { inspect } from 'util';
 import { createTransformer } from '../../src/transformer/transformer-factory';
 
 describe('new decorators e2e runtime tests', () => {
@@ -138,6 +139,361 @@ describe('new decorators e2e runtime tests', () => {
       expect(result.equals).toBe(false); // name changed
       expect(result.hashMatch).toBe(false);
     });
+
+    it('masks @Sensitive fields in toString', () => {
+      const source = `
+        @Data
+        class Payment {
+          id: number;
+          @Sensitive password: string;
+          @Sensitive({ showLast: 4 }) card?: string;
+        }
+      `;
+
+      const result = compileAndRun<string[]>(source, `
+        [
+          new Payment(1, 'hunter2', '4111111111114242').toString(),
+          new Payment(2, 'hunter2').toString()
+        ];
+      `);
+
+      expect(result).toEqual([
+        'Payment(id=1, password=****, card=****4242)',
+        'Payment(id=2, password=****, card=****)'
+      ]);
+    });
+  });
+
+  describe('@ToString runtime', () => {
+    it('renders collections, dates and nested objects', () => {
+      const source = `
+        @ToString
+        class Address {
+          city: string;
+        }
+
+        @ToString({ quoteStrings: true })
+        class User {
+          name: string;
+          tags: string[];
+          scores: Map<string, number>;
+          roles: Set<string>;
+          joined: Date;
+          address: Address;
+          meta: object;
+        }
+      `;
+
+      const result = compileAndRun<string>(source, `
+        const address = Object.assign(new Address(), { city: 'Oslo' });
+        Object.assign(new User(), {
+          name: 'a, b',
+          tags: ['x', 'y'],
+          scores: new Map([['math', 1]]),
+          roles: new Set(['admin']),
+          joined: new Date(0),
+          address,
+          meta: { level: 2 }
+        }).toString();
+      `);
+
+      expect(result).toBe(
+        'User(name="a, b", tags=["x", "y"], scores={"math"=1}, roles=["admin"], ' +
+        'joined=1970-01-01T00:00:00.000Z, address=Address(city=Oslo), meta={level=2})'
+      );
+    });
+
+    it('renders parseable JSON with format: json', () => {
+      const source = `
+        @ToString({ format: 'json' })
+        class Address {
+          city: string;
+        }
+
+        @ToString({ format: 'json' })
+        class User {
+          id: number;
+          name: string;
+          nickname?: string;
+          tags: string[];
+          address: Address;
+        }
+      `;
+
+      const result = compileAndRun<unknown>(source, `
+        const address = Object.assign(new Address(), { city: 'Oslo "North"' });
+        JSON.parse(Object.assign(new User(), { id: 1, name: 'Ann', tags: ['x'], address }).toString());
+      `);
+
+      expect(result).toEqual({ id: 1, name: 'Ann', nickname: null, tags: ['x'], address: { city: 'Oslo "North"' } });
+    });
+
+    it('indents nested output with format: multiline', () => {
+      const source = `
+        @ToString({ format: 'multiline' })
+        class Address {
+          city: string;
+        }
+
+        @ToString({ format: 'multiline' })
+        class User {
+          id: number;
+          address: Address;
+        }
+      `;
+
+      const result = compileAndRun<string>(source, `
+        const address = Object.assign(new Address(), { city: 'Oslo' });
+        Object.assign(new User(), { id: 1, address }).toString();
+      `);
+
+      expect(result).toBe('User(\n  id=1,\n  address=Address(\n    city=Oslo\n  )\n)');
+    });
+  });
+
+  describe('cyclic graphs runtime', () => {
+    const tree = `
+      @Data
+      class Tree {
+        name: string;
+        parent?: Tree;
+        children: Tree[] = [];
+      }
+
+      function build(leafName) {
+        const root = new Tree('root');
+        root.children.push(new Tree(leafName, root));
+        return root;
+      }
+    `;
+
+    it('renders back-references as <cycle>', () => {
+      const result = compileAndRun<string>(tree, `build('leaf').toString()`);
+
+      expect(result).toBe('Tree(name=root, parent=undefined, children=[Tree(name=leaf, parent=<cycle>, children=[])])');
+    });
+
+    it('detects cycles across classes and leaves the shared stacks empty', () => {
+      const source = `
+        @ToString
+        class Department {
+          name: string;
+          staff: Employee[] = [];
+        }
+
+        @ToString
+        class Employee {
+          name: string;
+          department?: Department;
+        }
+      `;
+
+      const result = compileAndRun<[string, number]>(source, `
+        const rd = Object.assign(new Department(), { name: 'R&D' });
+        rd.staff.push(Object.assign(new Employee(), { name: 'Ann', department: rd }));
+        [rd.toString(), globalThis[Symbol.for('ts-lombok.toString')].length];
+      `);
+
+      expect(result).toEqual(['Department(name=R&D, staff=[Employee(name=Ann, department=<cycle>)])', 0]);
+    });
+
+    it('compares and hashes graphs with back-references', () => {
+      const result = compileAndRun<boolean[]>(tree, `
+        [
+          build('leaf').equals(build('leaf')),
+          build('leaf').hashCode() === build('leaf').hashCode(),
+          build('leaf').equals(build('other'))
+        ];
+      `);
+
+      expect(result).toEqual([true, true, false]);
+    });
+
+    it('renders the superclass of an object in a cycle', () => {
+      const source = `
+        @ToString
+        class Employee {
+          name: string;
+          manager?: Employee;
+        }
+
+        @ToString({ callSuper: true })
+        class Manager extends Employee {
+          reports: Employee[] = [];
+        }
+      `;
+
+      const result = compileAndRun<string>(source, `
+        const boss = Object.assign(new Manager(), { name: 'Ann' });
+        boss.reports.push(Object.assign(new Employee(), { name: 'Bob', manager: boss }));
+        boss.toString();
+      `);
+
+      expect(result).toBe(
+        'Manager(super=Employee(name=Ann, manager=undefined), reports=[Employee(name=Bob, manager=<cycle>)])'
+      );
+    });
+  });
+
+  describe('@Inspect runtime', () => {
+    it('shows instances with their class name in util.inspect()', () => {
+      const source = `
+        @Inspect
+        class User {
+          id: number = 1;
+          name: string = 'John';
+          @Sensitive password: string = 'secret';
+          tags: string[] = ['admin'];
+        }
+      `;
+
+      const user = compileAndRun<object>(source, `new User()`);
+
+      expect(inspect(user)).toBe("User { id: 1, name: 'John', password: '****', tags: [ 'admin' ] }");
+      expect(Object.prototype.toString.call(user)).toBe('[object User]');
+    });
+
+    it('respects the depth limit and cycles', () => {
+      const source = `
+        @Inspect
+        class Node {
+          name: string;
+          next?: Node;
+          constructor(name: string) { this.name = name; }
+        }
+      `;
+
+      const [chain, loop] = compileAndRun<object[]>(source, `
+        const a = new Node('a');
+        a.next = new Node('b');
+        a.next.next = new Node('c');
+        const loop = new Node('loop');
+        loop.next = loop;
+        [a, loop];
+      `);
+
+      expect(inspect(chain, { depth: 1 })).toBe("Node { name: 'a', next: Node { name: 'b', next: [Node] } }");
+      expect(inspect(loop, { depth: null })).toBe("Node { name: 'loop', next: [Circular] }");
+    });
+  });
+
+  describe('@Accessors runtime', () => {
+    it('reads and writes through fluent chained accessors', () => {
+      const source = `
+        @Getter
+        @Setter
+        @NoArgsConstructor
+        @Accessors({ fluent: true, prefix: ['_'] })
+        class User {
+          private _id: number;
+          private _name: string;
+        }
+      `;
+
+      const result = compileAndRun<{ id: number; name: string }>(source, `
+        const user = new User().id(7).name('John');
+        ({ id: user.id(), name: user.name() });
+      `);
+
+      expect(result.id).toBe(7);
+      expect(result.name).toBe('John');
+    });
+  });
+
+  describe('native accessors runtime', () => {
+    it('reads and writes fields through property syntax', () => {
+      const source = `
+        @Data({ native: true })
+        class User {
+          @NonNull private _name: string;
+        }
+      `;
+
+      const result = compileAndRun<{ name: string; error: string }>(source, `
+        const user = new User('John');
+        user.name = 'Jane';
+        let error = '';
+        try {
+          user.name = null;
+        } catch (e) {
+          error = e.message;
+        }
+        ({ name: user.name, error });
+      `);
+
+      expect(result.name).toBe('Jane');
+      expect(result.error).toBe('name cannot be null or undefined');
+    });
+  });
+
+  describe('lazy getter runtime', () => {
+    it('computes the value once on frozen instances', () => {
+      const source = `
+        let calls = 0;
+
+        @Value
+        class Order {
+          price: number;
+          quantity: number;
+          @Getter({ lazy: true }) total: number = (calls++, this.price * this.quantity);
+        }
+      `;
+
+      const result = compileAndRun<{ first: number; second: number; calls: number; frozen: boolean }>(source, `
+        const order = new Order(5, 3);
+        const before = calls;
+        ({ first: order.getTotal(), second: order.getTotal(), calls: calls - before, frozen: Object.isFrozen(order) });
+      `);
+
+      expect(result.first).toBe(15);
+      expect(result.second).toBe(15);
+      expect(result.calls).toBe(1);
+      expect(result.frozen).toBe(true);
+    });
+  });
+
+  describe('@Builder runtime', () => {
+    it('builds instances through the fluent builder', () => {
+      const source = `
+        @Builder
+        class User {
+          id: number;
+          name: string;
+          email: string;
+        }
+      `;
+
+      const result = compileAndRun<{ id: number; name: string; email: string; isUser: boolean }>(source, `
+        const user = User.builder()
+          .id(1)
+          .name('John')
+          .email('john@example.com')
+          .build();
+        ({ id: user.id, name: user.name, email: user.email, isUser: user instanceof User });
+      `);
+
+      expect(result.id).toBe(1);
+      expect(result.name).toBe('John');
+      expect(result.email).toBe('john@example.com');
+      expect(result.isUser).toBe(true);
+    });
+
+    it('leaves unset fields undefined', () => {
+      const source = `
+        @Builder
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const result = compileAndRun<boolean>(source, `
+        const user = User.builder().id(7).build();
+        user.id === 7 && user.name === undefined;
+      `);
+
+      expect(result).toBe(true);
+    });
   });
 
   describe('@NoArgsConstructor runtime', () => {
@@ -179,6 +535,100 @@ describe('new decorators e2e runtime tests', () => {
       expect(result.y).toBe(2);
       expect(result.z).toBe(3);
     });
+
+    it('keeps field defaults for omitted arguments', () => {
+      const source = `
+        @With
+        @AllArgsConstructor
+        class User {
+          name: string;
+          role: string = 'user';
+        }
+      `;
+
+      const result = compileAndRun<{ role: string; name: string; admin: string }>(source, `
+        const u = new User('John');
+        ({ role: u.role, name: u.name, admin: u.withRole('admin').role });
+      `);
+
+      expect(result).toEqual({ role: 'user', name: 'John', admin: 'admin' });
+    });
+
+    it('passes arguments in field order when optional fields come first', () => {
+      const source = `
+        @AllArgsConstructor
+        class Opt {
+          a?: string;
+          b: number;
+          c = 3;
+        }
+      `;
+
+      const result = compileAndRun<{ a: string; b: number; c: number }>(source, `
+        const o = new Opt('x', 1);
+        const d = new Opt(undefined, 2, 4);
+        ({ a: o.a, b: o.b, c: o.c, da: d.a, db: d.b, dc: d.c });
+      `);
+
+      expect(result).toEqual({ a: 'x', b: 1, c: 3, da: undefined, db: 2, dc: 4 });
+    });
+  });
+
+  describe('object-style constructor runtime', () => {
+    it('assigns members and keeps field defaults', () => {
+      const source = `
+        @Record({ style: 'object' })
+        class User {
+          id: number;
+          nickname?: string;
+          role: string = 'user';
+        }
+      `;
+
+      const result = compileAndRun<string[]>(
+        source,
+        `[
+          new User({ id: 1 }).toString(),
+          new User({ id: 2, nickname: 'jj', role: 'admin' }).toString()
+        ]`
+      );
+
+      expect(result).toEqual([
+        'User(id=1, nickname=undefined, role=user)',
+        'User(id=2, nickname=jj, role=admin)'
+      ]);
+    });
+
+    it('throws for null @NonNull members', () => {
+      const source = `
+        @AllArgsConstructor({ style: 'object' })
+        class User {
+          @NonNull
+          name: string;
+        }
+      `;
+
+      expect(() => compileAndRun(source, 'new User({ name: null })')).toThrow(
+        'name cannot be null or undefined'
+      );
+    });
+  });
+
+  describe('static constructor runtime', () => {
+    it('creates instances through the static factory', () => {
+      const source = `
+        @ToString
+        @RequiredArgsConstructor({ staticName: 'of' })
+        class User {
+          id: number;
+          role: string = 'user';
+        }
+      `;
+
+      const result = compileAndRun<string>(source, 'User.of(1).toString()');
+
+      expect(result).toBe('User(id=1, role=user)');
+    });
   });
 
   describe('@RequiredArgsConstructor runtime', () => {
@@ -203,6 +653,129 @@ describe('new decorators e2e runtime tests', () => {
     });
   });
 
+  describe('derived classes runtime', () => {
+    it('initializes base and derived fields', () => {
+      const source = `
+        @AllArgsConstructor
+        class Entity {
+          id: number;
+        }
+
+        @Data
+        class User extends Entity {
+          name: string;
+        }
+      `;
+
+      const result = compileAndRun<{ id: number; name: string; isEntity: boolean }>(
+        source,
+        `(() => {
+          const user = new User(1, 'John');
+          return { id: user.id, name: user.getName(), isEntity: user instanceof Entity };
+        })()`
+      );
+
+      expect(result).toEqual({ id: 1, name: 'John', isEntity: true });
+    });
+
+    it('copies a derived instance whose base stores its parameters', () => {
+      const source = `
+        class Base {
+          readonly name: string;
+          constructor(name: string) {
+            this.name = name;
+          }
+        }
+
+        @Value
+        @With
+        class Item extends Base {
+          qty: number;
+        }
+      `;
+
+      const result = compileAndRun<{ name: string; qty: number }>(
+        source,
+        `(() => {
+          const item = new Item('bolt', 1).withQty(5);
+          return { name: item.name, qty: item.qty };
+        })()`
+      );
+
+      expect(result).toEqual({ name: 'bolt', qty: 5 });
+    });
+
+    it('folds in the superclass with callSuper and keeps equals symmetric', () => {
+      const source = `
+        @Data
+        class Employee {
+          name: string;
+        }
+
+        @Data({ callSuper: true })
+        class Manager extends Employee {
+          team: string;
+        }
+      `;
+
+      const result = compileAndRun<Record<string, unknown>>(
+        source,
+        `(() => {
+          const employee = new Employee('John');
+          const manager = new Manager('John', 'core');
+          return {
+            text: manager.toString(),
+            employeeEqualsManager: employee.equals(manager),
+            managerEqualsEmployee: manager.equals(employee),
+            sameManager: manager.equals(new Manager('John', 'core')),
+            otherName: manager.equals(new Manager('Jane', 'core')),
+            sameHash: manager.hashCode() === new Manager('John', 'core').hashCode(),
+            otherNameHash: manager.hashCode() === new Manager('Jane', 'core').hashCode()
+          };
+        })()`
+      );
+
+      expect(result).toEqual({
+        text: 'Manager(super=Employee(name=John), team=core)',
+        employeeEqualsManager: false,
+        managerEqualsEmployee: false,
+        sameManager: true,
+        otherName: false,
+        sameHash: true,
+        otherNameHash: false
+      });
+    });
+  });
+
+  describe('parameter properties runtime', () => {
+    it('uses parameter properties in generated methods', () => {
+      const source = `
+        @ToString
+        @Equals
+        @With
+        @Getter
+        class Money {
+          constructor(private readonly amount: number, readonly currency: string) {}
+        }
+      `;
+
+      const result = compileAndRun<{ text: string; amount: number; equal: boolean }>(
+        source,
+        `(() => {
+          const money = new Money(10, 'EUR');
+          const more = money.withAmount(20);
+          return {
+            text: more.toString(),
+            amount: more.getAmount(),
+            equal: money.equals(new Money(10, 'EUR'))
+          };
+        })()`
+      );
+
+      expect(result).toEqual({ text: 'Money(amount=20, currency=EUR)', amount: 20, equal: true });
+    });
+  });
+
   describe('@Singleton runtime', () => {
     it('returns same instance', () => {
       const source = `
@@ -132,6 +132,33 @@ describe('e2e runtime tests', () => {
 
       expect(str).toBe('Empty()');
     });
+
+    it('runs compact constructors to validate and normalise fields', () => {
+      const source = `
+        @Record
+        class Email {
+          address: string;
+
+          constructor() {
+            if (!this.address.includes('@')) {
+              throw new Error('invalid address');
+            }
+            this.address = this.address.toLowerCase();
+          }
+        }
+      `;
+
+      const result = compileAndRun<{ address: string; isFrozen: boolean }>(
+        source,
+        `(() => {
+          const email = new Email('John@Example.com');
+          return { address: email.address, isFrozen: Object.isFrozen(email) };
+        })()`
+      );
+
+      expect(result).toEqual({ address: 'john@example.com', isFrozen: true });
+      expect(() => compileAndRun(source, `new Email('john')`)).toThrow('invalid address');
+    });
   });
 
   describe('@Equals runtime behavior', () => {
@@ -238,6 +265,147 @@ describe('e2e runtime tests', () => {
 
       expect(result).toBe(true);
     });
+
+    it('compares collections, dates and nested objects structurally', () => {
+      const source = `
+        @Record
+        @Equals
+        class Money {
+          amount: number;
+          currency: string;
+        }
+
+        @Record
+        @Equals
+        class Order {
+          items: string[];
+          created: Date;
+          prices: Map<string, Money>;
+          tags: Set<object>;
+          meta: { source: string; codes: Uint8Array };
+        }
+
+        function order(price: number, tag: string) {
+          return new Order(
+            ['book', 'pen'],
+            new Date(0),
+            new Map([['book', new Money(price, 'EUR')]]),
+            new Set([{ tag }]),
+            { source: 'web', codes: new Uint8Array([1, 2]) }
+          );
+        }
+      `;
+
+      const result = compileAndRun<boolean[]>(source, `
+        [
+          order(10, 'new').equals(order(10, 'new')),
+          order(10, 'new').equals(order(12, 'new')),
+          order(10, 'new').equals(order(10, 'old'))
+        ];
+      `);
+
+      expect(result).toEqual([true, false, false]);
+    });
+
+    it('hashes equal objects equally and distinguishes similar values', () => {
+      const source = `
+        @Equals
+        class Entry {
+          label: string;
+          weight: number;
+          active: boolean;
+          tags: Map<string, number[]>;
+        }
+
+        function entry(label: string, weight: number, tags: Array<[string, number[]]>) {
+          return Object.assign(new Entry(), { label, weight, active: true, tags: new Map(tags) });
+        }
+      `;
+
+      const result = compileAndRun<Record<string, boolean>>(source, `
+        const a = entry('ab', 1.5, [['x', [1]], ['y', [2]]]);
+        const b = entry('ab', 1.5, [['y', [2]], ['x', [1]]]);
+        ({
+          equal: a.equals(b),
+          sameHash: a.hashCode() === b.hashCode(),
+          integerHash: Number.isInteger(a.hashCode()),
+          stringsDiffer: a.hashCode() !== entry('cd', 1.5, [['x', [1]], ['y', [2]]]).hashCode(),
+          numbersDiffer: a.hashCode() !== entry('ab', 2.5, [['x', [1]], ['y', [2]]]).hashCode(),
+          nestedDiffer: a.hashCode() !== entry('ab', 1.5, [['x', [3]], ['y', [2]]]).hashCode()
+        });
+      `);
+
+      expect(result).toEqual({
+        equal: true,
+        sameHash: true,
+        integerHash: true,
+        stringsDiffer: true,
+        numbersDiffer: true,
+        nestedDiffer: true
+      });
+    });
+
+    it('keeps reference equality with deep: false', () => {
+      const source = `
+        @Equals
+        class Basket {
+          @Equals({ deep: false }) owner: object;
+          items: string[];
+        }
+      `;
+
+      const result = compileAndRun<boolean[]>(source, `
+        const owner = {};
+        const basket = (owner, items) => Object.assign(new Basket(), { owner, items });
+        [
+          basket(owner, ['a']).equals(basket(owner, ['a'])),
+          basket({}, ['a']).equals(basket({}, ['a']))
+        ];
+      `);
+
+      expect(result).toEqual([true, false]);
+    });
+
+    it('ignores fields marked @Equals.Exclude', () => {
+      const source = `
+        @Equals
+        class Entity {
+          id: number;
+          @Equals.Exclude loadedAt: number;
+        }
+      `;
+
+      const result = compileAndRun<boolean[]>(source, `
+        const entity = (id, loadedAt) => Object.assign(new Entity(), { id, loadedAt });
+        [
+          entity(1, 100).equals(entity(1, 200)),
+          entity(1, 100).hashCode() === entity(1, 200).hashCode(),
+          entity(1, 100).equals(entity(2, 100))
+        ];
+      `);
+
+      expect(result).toEqual([true, true, false]);
+    });
+
+    it('keeps its helpers apart from members named like them', () => {
+      const source = `
+        @Data
+        class Tagged {
+          tags: string[];
+          static _hash(): string { return 'own hash'; }
+          _format = 'own format';
+          _deepEquals(): string { return 'own equals'; }
+        }
+      `;
+
+      const result = compileAndRun<unknown[]>(source, `
+        const a = new Tagged(['x']);
+        const b = new Tagged(['x']);
+        [a.equals(b), a.hashCode() === b.hashCode(), typeof a.hashCode(), a.toString(), Tagged._hash(), a._format, a._deepEquals()];
+      `);
+
+      expect(result).toEqual([true, true, 'number', 'Tagged(tags=[x], _format=own format)', 'own hash', 'own format', 'own equals']);
+    });
   });
 
   describe('@With runtime behavior', () => {
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { createTransformer } from '../../src/transformer/transformer-factory';
+import { createDeclarationTransformer } from '../../src/transformer/declaration-transformer';
+
+describe('declaration transformer', () => {
+  function emitDeclarations(sourceCode: string): string {
+    const fileName = 'test.ts';
+    const sourceFiles: Record<string, string> = {
+      [fileName]: sourceCode
+    };
+
+    let declarations = '';
+
+    const compilerHost: ts.CompilerHost = {
+      getSourceFile: (name, languageVersion) => {
+        if (sourceFiles[name]) {
+          return ts.createSourceFile(name, sourceFiles[name], languageVersion, true);
+        }
+        return undefined;
+      },
+      getDefaultLibFileName: () => 'lib.d.ts',
+      writeFile: (name, text) => {
+        if (name.endsWith('.d.ts')) {
+          declarations = text;
+        }
+      },
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: (f) => f,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: (name) => name in sourceFiles,
+      readFile: (name) => sourceFiles[name]
+    };
+
+    const program = ts.createProgram([fileName], {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      experimentalDecorators: true,
+      declaration: true
+    }, compilerHost);
+
+    program.emit(undefined, undefined, undefined, false, {
+      before: [createTransformer(program)],
+      afterDeclarations: [createDeclarationTransformer(program)]
+    });
+
+    return declarations;
+  }
+
+  it('adds the generated constructor and methods of @Record', () => {
+    const output = emitDeclarations(`
+      @Record
+      export class User {
+        id: number;
+        name: string;
+      }
+    `);
+
+    expect(output).toContain('constructor(id: number, name: string);');
+    expect(output).toContain('readonly id: number;');
+    expect(output).toContain('readonly name: string;');
+    expect(output).toContain('toString(): string;');
+  });
+
+  it('declares overloaded fluent accessors without the implementation', () => {
+    const output = emitDeclarations(`
+      @Getter
+      @Setter
+      @Accessors({ fluent: true, prefix: ['_'] })
+      export class User {
+        private _name: string = '';
+      }
+    `);
+
+    expect(output).toContain('name(): string;');
+    expect(output).toContain('name(name: string): this;');
+    expect(output).not.toContain('name(name?: string)');
+  });
+
+  it('replaces lazy fields with their getters', () => {
+    const output = emitDeclarations(`
+      export class Order {
+        price = 1;
+        @Getter({ lazy: true }) total = this.price * 2;
+      }
+    `);
+
+    expect(output).toContain('getTotal(): number;');
+    expect(output).toContain('private static readonly _lazyTotal;');
+    expect(output).not.toContain('total: number;');
+  });
+
+  it('adds getters, setters, equals and hashCode of @Data', () => {
+    const output = emitDeclarations(`
+      @Data
+      export class User {
+        id: number;
+        tags: string[];
+        active = true;
+      }
+    `);
+
+    expect(output).toContain('constructor(id: number, tags: string[], active?: boolean);');
+    expect(output).toContain('getId(): number;');
+    expect(output).toContain('isActive(): boolean;');
+    expect(output).toContain('setActive(active: boolean): void;');
+    expect(output).toContain('equals(other: User): boolean;');
+    expect(output).toContain('hashCode(): number;');
+    expect(output).not.toContain('_hash');
+    expect(output).not.toContain('_deepEquals');
+    expect(output).not.toContain('_format');
+  });
+
+  it('adds withX signatures', () => {
+    const output = emitDeclarations(`
+      @Record
+      @With
+      export class Point {
+        x: number;
+        y: number;
+      }
+    `);
+
+    expect(output).toContain('withX(x: number): Point;');
+    expect(output).toContain('withY(y: number): Point;');
+  });
+
+  it('declares the companion builder class', () => {
+    const output = emitDeclarations(`
+      @Builder
+      export class Box<T> {
+        value: T;
+      }
+    `);
+
+    expect(output).toContain('static builder<T>(): BoxBuilder<T>;');
+    expect(output).toContain('export declare class BoxBuilder<T> {');
+    expect(output).toContain('private _value;');
+    expect(output).toContain('value(value: T): BoxBuilder<T>;');
+    expect(output).toContain('build(): Box<T>;');
+  });
+
+  it('declares Symbol.toStringTag but not the util.inspect.custom method of @Inspect', () => {
+    const output = emitDeclarations(`
+      @Inspect
+      export class User {
+        id: number;
+      }
+    `);
+
+    expect(output).toContain('get [Symbol.toStringTag](): string;');
+    expect(output).not.toContain('inspect.custom');
+  });
+
+  it('leaves undecorated classes untouched', () => {
+    const output = emitDeclarations(`
+      export class Plain {
+        id: number;
+      }
+    `);
+
+    expect(output).toContain('export declare class Plain {\n    id: number;\n}');
+  });
+});
@@ -0,0 +1,872 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { createTransformer } from '../../src/transformer/transformer-factory';
+
+describe('decorator options', () => {
+  function transform(sourceCode: string): { output: string; diagnostics: ts.Diagnostic[] } {
+    const fileName = 'test.ts';
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true,
+      ts.ScriptKind.TS
+    );
+
+    const compilerHost: ts.CompilerHost = {
+      getSourceFile: (name) => (name === fileName ? sourceFile : undefined),
+      getDefaultLibFileName: () => 'lib.d.ts',
+      writeFile: () => {},
+      getCurrentDirectory: () => '/',
+      getCanonicalFileName: (f) => f,
+      useCaseSensitiveFileNames: () => true,
+      getNewLine: () => '\n',
+      fileExists: (name) => name === fileName,
+      readFile: () => undefined
+    };
+
+    const program = ts.createProgram([fileName], {
+      target: ts.ScriptTarget.Latest,
+      module: ts.ModuleKind.CommonJS,
+      experimentalDecorators: true
+    }, compilerHost);
+
+    const diagnostics: ts.Diagnostic[] = [];
+    const transformer = createTransformer(program, undefined, {
+      addDiagnostic: (diagnostic) => diagnostics.push(diagnostic)
+    });
+    const result = ts.transform(sourceFile, [transformer]);
+
+    const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+    const output = printer.printFile(result.transformed[0]);
+
+    result.dispose();
+    return { output, diagnostics };
+  }
+
+  function messages(diagnostics: ts.Diagnostic[]): string[] {
+    return diagnostics.map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+  }
+
+  describe('@ToString options', () => {
+    it('excludes fields listed in exclude', () => {
+      const { output, diagnostics } = transform(`
+        @ToString({ exclude: ['password'] })
+        class Account {
+          user: string;
+          password: string;
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(output).toContain('Account(user=${this.user})');
+      expect(output).not.toContain('this.password');
+      expect(output).not.toContain('@ToString');
+    });
+  });
+
+  describe('@Equals options', () => {
+    it('excludes fields from equals and hashCode', () => {
+      const { output } = transform(`
+        @Equals({ exclude: ['cache'] })
+        class Entity {
+          id: number;
+          cache: string;
+        }
+      `);
+
+      expect(output).toContain('this.id === other.id');
+      expect(output).not.toContain('other.cache');
+      expect(output).not.toContain('this.cache');
+    });
+
+    it('compares with === when deep is false on the class or a field', () => {
+      const { output, diagnostics } = transform(`
+        @Equals({ deep: false })
+        class Entity {
+          tags: string[];
+        }
+
+        @Equals
+        class Basket {
+          @Equals({ deep: false }) owner: object;
+          items: string[];
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(output).toContain('return this.tags === other.tags;');
+      expect(output).toContain('return this.owner === other.owner && Basket._deepEquals(this.items, other.items);');
+      expect(output).not.toContain('@Equals');
+    });
+
+    it('reports callSuper on a class without a superclass', () => {
+      const { output, diagnostics } = transform(`
+        @Equals({ callSuper: true })
+        class Entity {
+          id: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Equals: Option 'callSuper' requires 'Entity' to extend another class."
+      ]);
+      expect(output).not.toContain('super.equals');
+    });
+
+    it('reports exclude on a field', () => {
+      const { output, diagnostics } = transform(`
+        class Entity {
+          @Equals({ exclude: ['id'] }) id: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual(["@Equals: Option 'exclude' can only be used on classes."]);
+      expect(output).not.toContain('equals(');
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('reports unknown options', () => {
+      const { diagnostics } = transform(`
+        @ToString({ exclude: ['a'], colour: 'red' })
+        class User {
+          a: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@ToString: Unknown option 'colour'. Known options: exclude, onlyExplicitlyIncluded, callSuper, format, quoteStrings, includeFieldNames."
+      ]);
+      expect(diagnostics[0].category).toBe(ts.DiagnosticCategory.Error);
+      expect(diagnostics[0].source).toBe('ts-lombok');
+    });
+
+    it('reports options on decorators that take none', () => {
+      const { diagnostics } = transform(`
+        @Log({ strict: true })
+        class User {
+          id: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Log: Unknown option 'strict'. This decorator takes no options."
+      ]);
+    });
+
+    it('reports values of the wrong kind', () => {
+      const { output, diagnostics } = transform(`
+        @ToString({ exclude: 'password' })
+        class Account {
+          password: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@ToString: Option 'exclude' must be an array of strings."
+      ]);
+      expect(output).toContain('this.password');
+    });
+
+    it('reports non-literal option values', () => {
+      const { diagnostics } = transform(`
+        const EXCLUDED = ['password'];
+
+        @ToString({ exclude: EXCLUDED })
+        class Account {
+          password: string;
+        }
+      `);
+
+      expect(diagnostics.length).toBe(1);
+      expect(messages(diagnostics)[0]).toContain('must be literals');
+    });
+
+    it('reports static constructor names that are not identifiers', () => {
+      const { output, diagnostics } = transform(`
+        @AllArgsConstructor({ staticName: 'new-user' })
+        class User {
+          id: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@AllArgsConstructor: Option 'staticName' must be a valid method name, got 'new-user'."
+      ]);
+      expect(output).not.toContain('private constructor');
+    });
+
+    it('reports record constructors with parameters and keeps them', () => {
+      const { output, diagnostics } = transform(`
+        @Record
+        class User {
+          id: number;
+
+          constructor(id: string) {
+            this.id = Number(id);
+          }
+        }
+      `);
+
+      expect(output).toContain('constructor(id: string)');
+      expect(output).toContain('this.id = Number(id);');
+      expect(messages(diagnostics)).toEqual([
+        "The constructor of 'User' declares parameters (id) that conflict with the generated constructor. " +
+          'Write a compact constructor without parameters to validate or normalise the fields; no constructor is generated.'
+      ]);
+    });
+
+    it('reports compact constructors that return early', () => {
+      const { diagnostics } = transform(`
+        @Value
+        class User {
+          id: number;
+
+          constructor() {
+            if (this.id > 0) {
+              return;
+            }
+            [1].forEach(() => { return; });
+          }
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "A compact constructor cannot return; 'User' would not be frozen."
+      ]);
+    });
+
+    it('reports no-args constructors whose base class needs arguments', () => {
+      const { diagnostics } = transform(`
+        @AllArgsConstructor
+        class Entity {
+          id: number;
+        }
+
+        @NoArgsConstructor
+        class User extends Entity {
+          name: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@NoArgsConstructor: the base class of 'User' requires constructor arguments (id)."
+      ]);
+    });
+  });
+
+  describe('access levels', () => {
+    it('applies class-level access to generated accessors', () => {
+      const { output, diagnostics } = transform(`
+        @Getter({ access: 'protected' })
+        @Setter({ access: 'private' })
+        class Account {
+          user: string;
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(output).toContain('protected getUser(): string');
+      expect(output).toContain('private setUser(user: string): void');
+    });
+
+    it('lets property-level access override class-level access', () => {
+      const { output } = transform(`
+        @Setter({ access: 'protected' })
+        class Account {
+          user: string;
+          @Setter({ access: 'public' }) email: string;
+        }
+      `);
+
+      expect(output).toContain('protected setUser(user: string): void');
+      expect(output).toMatch(/\n\s+setEmail\(email: string\): void/);
+    });
+
+    it('suppresses accessors with access none', () => {
+      const { output } = transform(`
+        @Data
+        class Account {
+          user: string;
+          @Getter({ access: 'none' }) @Setter({ access: 'none' }) password: string;
+        }
+      `);
+
+      expect(output).toContain('getUser()');
+      expect(output).not.toContain('getPassword');
+      expect(output).not.toContain('setPassword');
+    });
+
+    it('applies access to with-methods', () => {
+      const { output } = transform(`
+        @Record
+        @With({ access: 'protected' })
+        class Point {
+          x: number;
+          @With({ access: 'none' }) y: number;
+        }
+      `);
+
+      expect(output).toContain('protected withX(x: number): Point');
+      expect(output).not.toContain('withY');
+    });
+
+    it('reports unknown access levels', () => {
+      const { diagnostics } = transform(`
+        @Getter({ access: 'package' })
+        class Account {
+          user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Getter: Option 'access' must be one of 'public', 'protected', 'private', 'none'."
+      ]);
+    });
+  });
+
+  describe('@Accessors options', () => {
+    it('reports fluent accessors that clash with the field name', () => {
+      const { output, diagnostics } = transform(`
+        @Getter
+        @Accessors({ fluent: true })
+        class Account {
+          user: string;
+        }
+      `);
+
+      expect(diagnostics.length).toBe(1);
+      expect(messages(diagnostics)[0]).toContain("Fluent accessors for 'user' would have the same name as the field");
+      expect(output).not.toContain('user()');
+    });
+
+    it('reports fluent getters and setters with different access levels', () => {
+      const { diagnostics } = transform(`
+        @Getter
+        @Setter({ access: 'protected' })
+        @Accessors({ fluent: true, prefix: ['_'] })
+        class Account {
+          _user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Accessors: The fluent getter and setter of '_user' are one method and need the same access level (getter is public, setter is protected)."
+      ]);
+    });
+
+    it('lets property-level @Accessors override class-level options', () => {
+      const { output } = transform(`
+        @Getter
+        @Accessors({ prefix: ['_'] })
+        class Account {
+          _user: string;
+          @Accessors({ prefix: [] }) _legacy: string;
+        }
+      `);
+
+      expect(output).toContain('getUser()');
+      expect(output).toContain('get_legacy()');
+    });
+  });
+
+  describe('@Builder conflicts', () => {
+    it('reports a field named build', () => {
+      const { output, diagnostics } = transform(`
+        @Builder
+        class Job {
+          id: number;
+          build: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Builder: The builder method for 'build' would clash with build(). Rename the field."
+      ]);
+      expect(diagnostics[0].code).toBe(90005);
+      expect(output.match(/build\(/g)).toHaveLength(1);
+      expect(output).not.toContain('private _build');
+    });
+
+    it('reports fields that share a builder method', () => {
+      const { output, diagnostics } = transform(`
+        @Builder
+        @Accessors({ prefix: ['_'] })
+        class Job {
+          _name: string;
+          name: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Builder: The builder method for 'name' would clash with name(). Rename the field."
+      ]);
+      expect(output.match(/ name\(/g)).toHaveLength(1);
+      expect(output.match(/private _name\?/g)).toHaveLength(1);
+    });
+  });
+
+  describe('native accessor options', () => {
+    it('reports fields without a backing field prefix', () => {
+      const { output, diagnostics } = transform(`
+        @Getter({ native: true })
+        class Account {
+          user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "Native accessors for 'user' need a backing field with a prefix, e.g. '_user'."
+      ]);
+      expect(output).not.toContain('get user()');
+    });
+
+    it('reports accessors that clash with existing members', () => {
+      const { output, diagnostics } = transform(`
+        @Getter({ native: true })
+        class Account {
+          private _user: string;
+          user(): string {
+            return '';
+          }
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "Cannot generate getter 'user' for class 'Account': the class already declares a method named 'user'."
+      ]);
+      expect(output).not.toContain('get user()');
+    });
+
+    it('reports setters that are more accessible than getters', () => {
+      const { diagnostics } = transform(`
+        @Getter({ native: true, access: 'private' })
+        @Setter({ native: true })
+        class Account {
+          _user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "The native getter of '_user' must be at least as accessible as its setter (getter is private, setter is public)."
+      ]);
+    });
+  });
+
+  describe('lazy getter options', () => {
+    it('reports lazy properties without an initializer', () => {
+      const { output, diagnostics } = transform(`
+        class Order {
+          @Getter({ lazy: true }) total: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Getter: Lazy property 'total' needs an initializer to compute its value."
+      ]);
+      expect(output).toContain('getTotal()');
+      expect(output).not.toContain('WeakMap');
+    });
+
+    it('reports lazy on the class', () => {
+      const { diagnostics } = transform(`
+        @Getter({ lazy: true })
+        class Order {
+          total = 0;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual(["@Getter: Option 'lazy' can only be used on properties."]);
+    });
+  });
+
+  describe('property decorators', () => {
+    it('reports options on property decorators', () => {
+      const { diagnostics } = transform(`
+        class Account {
+          @Getter({ colour: 'red' }) user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual(["@Getter: Unknown option 'colour'. Known options: access, native, lazy."]);
+    });
+
+    it('warns about @Setter on readonly properties', () => {
+      const { output, diagnostics } = transform(`
+        class Account {
+          @Setter readonly user: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual(["@Setter has no effect on readonly property 'user'."]);
+      expect(diagnostics[0].category).toBe(ts.DiagnosticCategory.Warning);
+      expect(output).not.toContain('setUser');
+    });
+
+    it('reports includeFieldNames: false with JSON output', () => {
+      const { output, diagnostics } = transform(`
+        @ToString({ format: 'json', includeFieldNames: false })
+        class Point {
+          x: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@ToString: Option 'includeFieldNames' cannot be false with format 'json'."
+      ]);
+      expect(output).toContain('"x":');
+    });
+
+    it('reports a showLast that is not a positive integer', () => {
+      const { output, diagnostics } = transform(`
+        @ToString
+        class Payment {
+          @Sensitive({ showLast: 0 }) card: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual(["@Sensitive: Option 'showLast' must be a positive integer, got 0."]);
+      expect(output).toContain('return `Payment(card=****)`;');
+    });
+
+    it('warns about fields marked both included and excluded', () => {
+      const { output, diagnostics } = transform(`
+        @ToString({ onlyExplicitlyIncluded: true })
+        class Session {
+          @ToString.Include @ToString.Exclude token: string;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@ToString.Include has no effect on 'token' because it is also marked @ToString.Exclude."
+      ]);
+      expect(diagnostics[0].category).toBe(ts.DiagnosticCategory.Warning);
+      expect(output).toContain('return `Session()`;');
+    });
+
+    it('reports options on field exclusion markers', () => {
+      const { diagnostics } = transform(`
+        @Equals
+        class Entity {
+          @Equals.Exclude({ always: true }) loadedAt: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Equals.Exclude: Unknown option 'always'. This decorator takes no options."
+      ]);
+    });
+  });
+
+  describe('constructor parameter order', () => {
+    it('warns about optional fields ahead of required ones', () => {
+      const { output, diagnostics } = transform(`
+        @AllArgsConstructor
+        class Payment {
+          amount: number;
+          currency?: string;
+          note: string = '';
+          count: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "'currency' is optional but comes before the required field 'count', so the constructor of 'Payment' " +
+          'takes it as a required parameter that accepts undefined. Declare it after the required fields or place it with @Order.',
+        "'note' is optional but comes before the required field 'count', so the constructor of 'Payment' " +
+          'takes it as a required parameter that accepts undefined. Declare it after the required fields or place it with @Order.'
+      ]);
+      expect(diagnostics.map(d => d.category)).toEqual([ts.DiagnosticCategory.Warning, ts.DiagnosticCategory.Warning]);
+      expect(diagnostics[0].code).toBe(90008);
+      expect(output).toContain('constructor(amount: number, currency: string | undefined, note: string | undefined, count: number)');
+    });
+
+    it('accepts optional fields placed last', () => {
+      const { diagnostics } = transform(`
+        @AllArgsConstructor
+        class Payment {
+          @Order(2) currency?: string;
+          @Order(0) amount: number;
+          @Order(1) count: number;
+        }
+
+        @AllArgsConstructor({ style: 'object' })
+        class Invoice {
+          note?: string;
+          total: number;
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+    });
+  });
+
+  describe('@Order positions', () => {
+    it('reports fields without a position when others have one', () => {
+      const { output, diagnostics } = transform(`
+        @AllArgsConstructor
+        class Range {
+          @Order(0) start: number;
+          end: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "Field 'end' of 'Range' needs an @Order position because other fields have one."
+      ]);
+      expect(output).toContain('constructor(start: number, end: number)');
+    });
+
+    it('reports colliding positions', () => {
+      const { diagnostics } = transform(`
+        @AllArgsConstructor
+        class Range {
+          @Order(0) start: number;
+          @Order(0) end: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "Fields 'start' and 'end' of 'Range' both have @Order position 0.",
+        "No field of 'Range' has @Order position 1; positions must run from 0 to 1."
+      ]);
+    });
+
+    it('reports gaps between positions', () => {
+      const { diagnostics } = transform(`
+        @AllArgsConstructor
+        class Range {
+          @Order(0) start: number;
+          @Order(2) end: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "No field of 'Range' has @Order position 1; positions must run from 0 to 1."
+      ]);
+    });
+
+    it('reports positions that are not integer literals', () => {
+      const { diagnostics } = transform(`
+        const first = 0;
+
+        @AllArgsConstructor
+        class Range {
+          @Order(first) start: number;
+          @Order(1.5) end: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Order on 'start' expects a single non-negative integer literal, e.g. @Order(0).",
+        "@Order on 'end' expects a single non-negative integer literal, e.g. @Order(0)."
+      ]);
+    });
+  });
+
+  describe('kept constructor arguments', () => {
+    it('skips withX() and the builder when a parameter is not stored in a field', () => {
+      const { output, diagnostics } = transform(`
+        @With
+        @Builder
+        class User {
+          constructor(private readonly id: number, label: string) {}
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Builder and withX() methods cannot pass on the constructor arguments of 'User': " +
+          "parameter 'label' is not stored in a field of the same name."
+      ]);
+      expect(diagnostics[0].code).toBe(90010);
+      expect(output).not.toContain('withId');
+      expect(output).not.toContain('UserBuilder');
+    });
+
+    it('skips withX() for destructured parameters', () => {
+      const { output, diagnostics } = transform(`
+        @With
+        class Opt {
+          constructor(public a: number, { b }: { b: number }) {}
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "withX() methods cannot pass on the constructor arguments of 'Opt': " +
+          'destructured parameters cannot be read back from a field.'
+      ]);
+      expect(output).not.toContain('withA');
+      expect(output).not.toContain('this.{');
+    });
+
+    it('passes parameters stored in a field of the same name', () => {
+      const { output, diagnostics } = transform(`
+        @With
+        @Builder
+        class User {
+          label: string;
+
+          constructor(private readonly id: number, label: string) {
+            this.label = label;
+          }
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(output).toContain('return new User(id, this.label);');
+      expect(output).toContain('return new User(this._id, this._label);');
+    });
+  });
+
+  describe('base constructor arguments', () => {
+    it('skips withX() when the base stores a parameter under another name', () => {
+      const { output, diagnostics } = transform(`
+        class Base {
+          readonly label: string;
+          constructor(name: string) {
+            this.label = name.toUpperCase();
+          }
+        }
+
+        @Value
+        @With
+        class Item extends Base {
+          qty: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "withX() methods cannot pass on the base constructor arguments of 'Item': " +
+          "'name' is not stored in a readable field of the same name."
+      ]);
+      expect(diagnostics[0].code).toBe(90010);
+      expect(output).toContain('super(name);');
+      expect(output).not.toContain('withQty');
+    });
+
+    it('skips withX() when the base never stores an optional parameter', () => {
+      const { output, diagnostics } = transform(`
+        class Base {
+          constructor(readonly name: string, extra?: number) {}
+        }
+
+        @With
+        @AllArgsConstructor
+        class Item extends Base {
+          qty: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "withX() methods cannot pass on the base constructor arguments of 'Item': " +
+          "'extra' is not stored in a readable field of the same name."
+      ]);
+      expect(output).not.toContain('withQty');
+    });
+
+    it('does not read private base fields', () => {
+      const { output, diagnostics } = transform(`
+        class Base {
+          readonly name: string;
+          constructor(name: string, private secret?: string) {
+            this.name = name;
+          }
+        }
+
+        @With
+        @AllArgsConstructor
+        class Item extends Base {
+          qty: number;
+        }
+
+        class Other {
+          constructor(private code: string) {}
+        }
+
+        @With
+        @AllArgsConstructor
+        class Part extends Other {
+          qty: number;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "withX() methods cannot pass on the base constructor arguments of 'Item': " +
+          "'secret' is not stored in a readable field of the same name.",
+        "withX() methods cannot pass on the base constructor arguments of 'Part': " +
+          "'code' is not stored in a readable field of the same name."
+      ]);
+      expect(output).not.toContain('withQty');
+    });
+
+    it('passes base parameters stored in fields of the same name', () => {
+      const { output, diagnostics } = transform(`
+        class Base {
+          readonly name: string;
+          constructor(name: string, protected tag?: string) {
+            this.name = name;
+          }
+        }
+
+        @With
+        @AllArgsConstructor
+        class Item extends Base {
+          qty: number;
+        }
+      `);
+
+      expect(diagnostics).toEqual([]);
+      expect(output).toContain('return new Item(this.name, this.tag, qty);');
+    });
+  });
+
+  describe('unsupported declarations', () => {
+    it('skips anonymous classes', () => {
+      const { output, diagnostics } = transform(`
+        @Builder
+        export default class {
+          @Getter({ lazy: true }) total: number = 1;
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        'ts-lombok decorators need a named class; name the class to generate its members.'
+      ]);
+      expect(diagnostics[0].code).toBe(90009);
+      expect(output).not.toContain('Anonymous');
+      expect(output).not.toContain('build()');
+    });
+
+    it('reports and removes property decorators on constructor parameters', () => {
+      const { output, diagnostics } = transform(`
+        @ToString
+        class Card {
+          constructor(@Sensitive private pin: string, @Inject() @Getter public owner: string) {}
+        }
+      `);
+
+      expect(messages(diagnostics)).toEqual([
+        "@Sensitive is not supported on constructor parameters. Declare 'pin' as a field to use it.",
+        "@Getter is not supported on constructor parameters. Declare 'owner' as a field to use it."
+      ]);
+      expect(diagnostics[0].code).toBe(90009);
+      expect(output).toContain('constructor(private pin: string,');
+      expect(output).toContain('@Inject()');
+      expect(output).not.toContain('@Sensitive');
+      expect(output).not.toContain('@Getter');
+      expect(output).not.toContain('getOwner');
+    });
+
+    it('removes property decorators on constructor parameters of otherwise plain classes', () => {
+      const { output, diagnostics } = transform(`
+        class Card {
+          constructor(@Sensitive private pin: string) {}
+        }
+      `);
+
+      expect(diagnostics.length).toBe(1);
+      expect(output).toContain('constructor(private pin: string)');
+    });
+  });
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import init, { decorateLanguageService } from '../../src/language-service/plugin';
+
+describe('language service plugin', () => {
+  const fileName = '/test.ts';
+
+  function createLanguageService(sourceCode: string): ts.LanguageService {
+    const compilerOptions: ts.CompilerOptions = {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      experimentalDecorators: true,
+      strict: true
+    };
+
+    const host: ts.LanguageServiceHost = {
+      getScriptFileNames: () => [fileName],
+      getScriptVersion: () => '1',
+      getScriptSnapshot: (name) => {
+        if (name === fileName) {
+          return ts.ScriptSnapshot.fromString(sourceCode);
+        }
+        return fs.existsSync(name)
+          ? ts.ScriptSnapshot.fromString(fs.readFileSync(name, 'utf8'))
+          : undefined;
+      },
+      getCurrentDirectory: () => '/',
+      getCompilationSettings: () => compilerOptions,
+      getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+      fileExists: (name) => name === fileName || fs.existsSync(name),
+      readFile: (name) => (name === fileName ? sourceCode : fs.readFileSync(name, 'utf8'))
+    };
+
+    return decorateLanguageService(ts.createLanguageService(host));
+  }
+
+  const markers = `
+    declare function Data(target: any): any;
+    declare function Record(target: any): any;
+    declare function Builder(target: any): any;
+  `;
+
+  function diagnosticMessages(sourceCode: string): string[] {
+    const service = createLanguageService(sourceCode);
+    return service
+      .getSemanticDiagnostics(fileName)
+      .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+  }
+
+  describe('semantic diagnostics', () => {
+    it('drops errors for generated constructors and members', () => {
+      const messages = diagnosticMessages(`${markers}
+        @Data
+        class User {
+          id: number;
+          name: string;
+        }
+
+        const user = new User(1, 'John');
+        user.getId();
+        user.setName('Jane');
+        user.equals(user);
+        user.hashCode();
+      `);
+
+      expect(messages).toEqual([]);
+    });
+
+    it('reports constructor calls with the wrong number of arguments', () => {
+      const messages = diagnosticMessages(`${markers}
+        @Record
+        class Point {
+          x: number;
+          y: number;
+        }
+
+        new Point(1);
+      `);
+
+      expect(messages).toEqual(['Expected 2 arguments, but got 1.']);
+    });
+
+    it('keeps errors for members that are not generated', () => {
+      const messages = diagnosticMessages(`${markers}
+        @Data
+        class User {
+          id: number;
+        }
+
+        new User(1).getName();
+      `);
+
+      expect(messages.length).toBe(1);
+      expect(messages[0]).toContain("'getName'");
+    });
+
+    it('sees static members and generated members of base classes', () => {
+      const messages = diagnosticMessages(`${markers}
+        @Builder
+        class User {
+          id: number;
+        }
+
+        @Data
+        class Base {
+          id: number;
+        }
+
+        class Derived extends Base {}
+
+        User.builder();
+        new Derived(1).getId();
+      `);
+
+      expect(messages).toEqual([]);
+    });
+
+    it('reports access to protected generated members outside the class hierarchy', () => {
+      const messages = diagnosticMessages(`
+        declare function Setter(options: any): any;
+        declare function AllArgsConstructor(target: any): any;
+
+        @AllArgsConstructor
+        @Setter({ access: 'protected' })
+        class Account {
+          user: string;
+        }
+
+        class AdminAccount extends Account {
+          rename(user: string) {
+            this.setUser(user);
+          }
+        }
+
+        new Account('john').setUser('jane');
+      `);
+
+      expect(messages).toEqual([
+        "Property 'setUser' is protected and only accessible within class 'Account' and its subclasses."
+      ]);
+    });
+
+    it('reports calls to a private constructor with a static factory', () => {
+      const messages = diagnosticMessages(`
+        declare function AllArgsConstructor(options: any): any;
+
+        @AllArgsConstructor({ staticName: 'of' })
+        class Point {
+          x: number;
+          y: number;
+
+          static origin(): Point {
+            return new Point(0, 0);
+          }
+        }
+
+        new Point(1, 2);
+      `);
+
+      expect(messages).toEqual([
+        "Constructor of class 'Point' is private and only accessible within the class declaration."
+      ]);
+    });
+  });
+
+  describe('transformer diagnostics', () => {
+    it('reports invalid decorator options', () => {
+      const messages = diagnosticMessages(`
+        declare function ToString(options: any): any;
+
+        @ToString({ colour: 'red' })
+        class User {
+          id = 0;
+        }
+      `);
+
+      expect(messages).toEqual(["@ToString: Unknown option 'colour'. Known options: exclude, onlyExplicitlyIncluded, callSuper, format, quoteStrings, includeFieldNames."]);
+    });
+  });
+
+  describe('completions and quick info', () => {
+    const source = `${markers}
+        @Data
+        class User {
+          id: number;
+        }
+
+        const user = new User(1);
+        user.getId();
+        user.
+      `;
+
+    it('adds generated members to member completions', () => {
+      const service = createLanguageService(source);
+      const position = source.lastIndexOf('user.') + 'user.'.length;
+      const completions = service.getCompletionsAtPosition(fileName, position, undefined);
+      const names = completions?.entries.map(e => e.name) ?? [];
+
+      expect(names).toContain('getId');
+      expect(names).toContain('setId');
+      expect(names).toContain('equals');
+      expect(names).toContain('id');
+    });
+
+    it('describes generated members in quick info', () => {
+      const service = createLanguageService(source);
+      const position = source.indexOf('getId') + 1;
+      const quickInfo = service.getQuickInfoAtPosition(fileName, position);
+      const text = ts.displayPartsToString(quickInfo?.displayParts);
+
+      expect(text).toBe('(method) User.getId(): number');
+    });
+  });
+
+  describe('edits to other files', () => {
+    it('recomputes generated members when a base class in another file changes', () => {
+      const files: Record<string, { text: string; version: number }> = {
+        '/base.ts': {
+          text: `
+            declare function AllArgsConstructor(target: any): any;
+            @AllArgsConstructor
+            export class Base {
+              a: number;
+            }
+          `,
+          version: 1
+        },
+        '/derived.ts': {
+          text: `
+            import { Base } from './base';
+            declare function AllArgsConstructor(target: any): any;
+            @AllArgsConstructor
+            class Derived extends Base {
+              b: number;
+            }
+            new Derived(1, 2);
+          `,
+          version: 1
+        }
+      };
+
+      const host: ts.LanguageServiceHost = {
+        getScriptFileNames: () => Object.keys(files),
+        getScriptVersion: (name) => String(files[name]?.version ?? 0),
+        getScriptSnapshot: (name) => {
+          if (files[name]) {
+            return ts.ScriptSnapshot.fromString(files[name].text);
+          }
+          return fs.existsSync(name)
+            ? ts.ScriptSnapshot.fromString(fs.readFileSync(name, 'utf8'))
+            : undefined;
+        },
+        getCurrentDirectory: () => '/',
+        getCompilationSettings: () => ({
+          target: ts.ScriptTarget.ES2020,
+          module: ts.ModuleKind.CommonJS,
+          experimentalDecorators: true,
+          strict: true
+        }),
+        getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+        fileExists: (name) => name in files || fs.existsSync(name),
+        readFile: (name) => files[name]?.text ?? fs.readFileSync(name, 'utf8')
+      };
+      const service = decorateLanguageService(ts.createLanguageService(host));
+      const messages = () => service
+        .getSemanticDiagnostics('/derived.ts')
+        .map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+
+      expect(messages()).toEqual([]);
+
+      files['/base.ts'] = {
+        text: files['/base.ts'].text.replace('a: number;', 'a: number;\n              c: string;'),
+        version: 2
+      };
+
+      expect(messages()).toEqual(['Expected 3 arguments, but got 2.']);
+    });
+  });
+
+  describe('plugin factory', () => {
+    function createInfo(languageService: ts.LanguageService): { info: ts.server.PluginCreateInfo; logged: string[] } {
+      const logged: string[] = [];
+      const info = {
+        languageService,
+        project: { projectService: { logger: { info: (message: string) => logged.push(message) } } }
+      } as unknown as ts.server.PluginCreateInfo;
+      return { info, logged };
+    }
+
+    it('decorates the language service when tsserver runs the same TypeScript', () => {
+      const languageService = createLanguageService('');
+      const { info } = createInfo(languageService);
+
+      expect(init({ typescript: ts }).create(info)).not.toBe(languageService);
+    });
+
+    it('leaves the language service alone when tsserver runs another TypeScript version', () => {
+      const languageService = createLanguageService('');
+      const { info, logged } = createInfo(languageService);
+      const other = { ...ts, versionMajorMinor: '4.8' } as typeof ts;
+
+      expect(init({ typescript: other }).create(info)).toBe(languageService);
+      expect(logged[0]).toContain('4.8');
+    });
+  });
+});
@@ -59,6 +59,113 @@ describe('new decorators integration', () => {
       expect(output).toContain('return this.id');
       expect(output).toContain('return this.name');
     });
+
+    it('generates getters only for decorated properties', () => {
+      const input = `
+        class User {
+          @Getter id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('getId()');
+      expect(output).not.toContain('getName()');
+      expect(output).not.toContain('@Getter');
+    });
+
+    it('does not duplicate getters when used on class and property', () => {
+      const input = `
+        @Getter
+        class User {
+          @Getter id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output.match(/getId\(\)/g)?.length).toBe(1);
+      expect(output).toContain('getName()');
+    });
+  });
+
+  describe('boolean getters', () => {
+    it('names boolean getters isX', () => {
+      const input = `
+        @Getter
+        class User {
+          active: boolean;
+          verified: boolean | undefined;
+          admin = false;
+          archived = !this.admin;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('isActive(): boolean');
+      expect(output).toContain('isVerified(): boolean | undefined');
+      expect(output).toContain('isAdmin()');
+      expect(output).toContain('isArchived()');
+      expect(output).toContain('getName(): string');
+    });
+
+    it('does not double the is prefix', () => {
+      const input = `
+        @Getter
+        @Accessors({ prefix: ['_'] })
+        class User {
+          _isActive: boolean;
+          isLocked: boolean;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('isActive(): boolean');
+      expect(output).not.toContain('isIsActive');
+      expect(output).toContain('getIsLocked(): boolean');
+    });
+
+    it('keeps getX when isPrefix is disabled', () => {
+      const input = `
+        @Getter
+        @Accessors({ isPrefix: false })
+        class User {
+          active: boolean;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('getActive(): boolean');
+    });
+  });
+
+  describe('lazy getters', () => {
+    it('moves the initializer into a cached getter', () => {
+      const input = `
+        @Record
+        class Order {
+          price: number;
+          quantity: number;
+          @Getter({ lazy: true }) total: number = this.price * this.quantity;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(price: number, quantity: number)');
+      expect(output).toContain('private static readonly _lazyTotal = new WeakMap<object, unknown>();');
+      expect(output).toContain('if (!Order._lazyTotal.has(this))');
+      expect(output).toContain('Order._lazyTotal.set(this, this.price * this.quantity);');
+      expect(output).toContain('return Order._lazyTotal.get(this) as number;');
+      expect(output).not.toContain('readonly total');
+      expect(output).not.toContain('total=');
+    });
   });
 
   describe('@Setter', () => {
@@ -78,6 +185,23 @@ describe('new decorators integration', () => {
       expect(output).toContain('this.id = id');
       expect(output).toContain('this.name = name');
     });
+
+    it('generates setters only for decorated properties', () => {
+      const input = `
+        @Getter
+        class User {
+          id: number;
+          @Setter name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('setName(name: string)');
+      expect(output).not.toContain('setId(');
+      expect(output).toContain('getId()');
+      expect(output).toContain('getName()');
+    });
   });
 
   describe('@ToString', () => {
@@ -95,6 +219,197 @@ describe('new decorators integration', () => {
       expect(output).toContain('toString()');
       expect(output).toContain('User(id=');
     });
+
+    it('leaves out fields marked @ToString.Exclude', () => {
+      const input = `
+        @ToString
+        class Session {
+          id: string;
+          @ToString.Exclude token: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `Session(id=${this.id})`;');
+      expect(output).not.toContain('ToString.Exclude');
+    });
+
+    it('renders only fields marked @ToString.Include with onlyExplicitlyIncluded', () => {
+      const input = `
+        @ToString({ onlyExplicitlyIncluded: true })
+        class Session {
+          @ToString.Include id: string;
+          token: string;
+          @ToString.Include user: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `Session(id=${this.id}, user=${this.user})`;');
+      expect(output).not.toContain('ToString.Include');
+    });
+
+    it('masks @Sensitive fields', () => {
+      const input = `
+        @ToString
+        class Payment {
+          id: number;
+          @Sensitive password: string;
+          @Sensitive({ mask: '[redacted]' }) pin: string;
+          @Sensitive({ showLast: 4 }) card: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain(
+        'return `Payment(id=${this.id}, password=****, pin=[redacted], card=****${String(this.card ?? "").slice(-4)})`;'
+      );
+      expect(output).not.toContain('@Sensitive');
+    });
+
+    it('renders fields that are not primitives through _format()', () => {
+      const input = `
+        @ToString
+        class Order {
+          id: number;
+          name: string;
+          items: string[];
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('private static _format(value: any): string');
+      expect(output).toContain('return `Order(id=${this.id}, name=${this.name}, items=${Order._format(this.items)})`;');
+      expect(output).toContain('Array.from(value, item => Order._format(item))');
+    });
+
+    it('leaves _format() out when every field is primitive', () => {
+      const input = `
+        @ToString
+        class Point {
+          x: number;
+          label: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).not.toContain('_format');
+      expect(output).not.toContain('rendering');
+    });
+
+    it('quotes strings with quoteStrings', () => {
+      const input = `
+        @ToString({ quoteStrings: true })
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return JSON.stringify(value);');
+      expect(output).toContain('return `User(id=${this.id}, name=${User._format(this.name)})`;');
+    });
+
+    it('leaves out field names with includeFieldNames: false', () => {
+      const input = `
+        @ToString({ includeFieldNames: false })
+        class Point {
+          x: number;
+          y: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `Point(${this.x}, ${this.y})`;');
+    });
+
+    it('renders JSON with format: json', () => {
+      const input = `
+        @ToString({ format: 'json' })
+        class User {
+          id: number;
+          @Sensitive password: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `{"id":${User._format(this.id)},"password":"****"}`;');
+    });
+
+    it('renders one field per line with format: multiline', () => {
+      const input = `
+        @ToString({ format: 'multiline' })
+        class Point {
+          x: number;
+          y: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `Point(\n  x=${this.x},\n  y=${this.y}\n)`;');
+    });
+  });
+
+  describe('@Inspect', () => {
+    it('generates util.inspect.custom and Symbol.toStringTag', () => {
+      const input = `
+        @Inspect
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('[Symbol.for("nodejs.util.inspect.custom")](depth: number, options: any');
+      expect(output).toContain('return options.stylize("[User]", "special");');
+      expect(output).toContain('return `User { id: ${inspect(this.id, nested)}, name: ${inspect(this.name, nested)} }`;');
+      expect(output).toContain('get [Symbol.toStringTag](): string {\n        return "User";');
+    });
+
+    it('picks and masks fields as toString() does', () => {
+      const input = `
+        @Inspect
+        @ToString({ exclude: ['token'] })
+        class User {
+          id: number;
+          token: string;
+          @Sensitive({ showLast: 4 }) card: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain(
+        'return `User { id: ${inspect(this.id, nested)}, card: ${inspect("****" + String(this.card ?? "").slice(-4), nested)} }`;'
+      );
+    });
+
+    it('keeps user-written symbol members', () => {
+      const input = `
+        @Inspect
+        class User {
+          id: number;
+          get [Symbol.toStringTag]() { return 'Account'; }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('nodejs.util.inspect.custom');
+      expect(output.match(/Symbol\.toStringTag/g)).toHaveLength(1);
+    });
   });
 
   describe('@Data', () => {
@@ -131,72 +446,672 @@ describe('new decorators integration', () => {
     });
   });
 
-  describe('@Builder', () => {
-    it('generates static builder method', () => {
+  describe('@Accessors', () => {
+    it('strips field prefixes from accessor names', () => {
       const input = `
-        @Builder
+        @Getter
+        @Setter
+        @Accessors({ prefix: ['_', 'm_'] })
         class User {
-          id: number;
-          name: string;
+          private _id: number;
+          private m_name: string;
         }
       `;
 
       const output = transform(input);
 
-      expect(output).toContain('static builder()');
-      expect(output).toContain('UserBuilder');
+      expect(output).toContain('getId(): number');
+      expect(output).toContain('setId(id: number): void');
+      expect(output).toContain('this._id = id');
+      expect(output).toContain('getName(): string');
+      expect(output).not.toContain('get_id');
+      expect(output).not.toContain('@Accessors');
     });
-  });
 
-  describe('@NoArgsConstructor', () => {
-    it('generates empty constructor', () => {
+    it('generates chained setters', () => {
       const input = `
-        @NoArgsConstructor
+        @Setter
+        @Accessors({ chain: true })
         class User {
           id: number;
-          name: string;
         }
       `;
 
       const output = transform(input);
 
-      expect(output).toContain('constructor()');
-      expect(output).not.toContain('constructor(id');
+      expect(output).toContain('setId(id: number): this');
+      expect(output).toContain('return this;');
     });
-  });
 
-  describe('@AllArgsConstructor', () => {
-    it('generates constructor with all fields', () => {
+    it('merges fluent getters and setters into one overloaded method', () => {
       const input = `
-        @AllArgsConstructor
+        @Getter
+        @Setter
+        @Accessors({ fluent: true, prefix: ['_'] })
         class User {
-          id: number;
-          name: string;
+          private _name: string;
         }
       `;
 
       const output = transform(input);
 
-      expect(output).toContain('constructor(id: number, name: string)');
+      expect(output).toContain('name(): string;');
+      expect(output).toContain('name(name: string): this;');
+      expect(output).toContain('name(name?: string): string | this {');
+      expect(output).toContain('arguments.length === 0');
+    });
+
+    it('names with-methods and builder methods without the prefix', () => {
+      const input = `
+        @Builder
+        @With
+        @Accessors({ prefix: ['_'] })
+        class Point {
+          _x: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('withX(x: number): Point');
+      expect(output).toContain('x(x: number): PointBuilder');
+      expect(output).toContain('this._x = x');
     });
   });
 
-  describe('@RequiredArgsConstructor', () => {
-    it('generates constructor with required fields only', () => {
+  describe('native accessors', () => {
+    it('generates get and set accessors over prefixed backing fields', () => {
       const input = `
-        @RequiredArgsConstructor
+        @Getter({ native: true })
+        @Setter({ native: true })
         class User {
-          id: number;
-          name: string;
-          active: boolean = true;
+          private _name: string;
+          private readonly _id: number;
         }
       `;
 
       const output = transform(input);
 
-      // Should have id and name but not active (has initializer)
-      expect(output).toContain('constructor(id: number, name: string)');
-      expect(output).not.toContain('active: boolean)');
+      expect(output).toContain('get name(): string');
+      expect(output).toContain('set name(name: string)');
+      expect(output).toContain('this._name = name;');
+      expect(output).toContain('get id(): number');
+      expect(output).not.toContain('set id(');
+    });
+
+    it('validates @NonNull properties in setters', () => {
+      const input = `
+        @Data({ native: true })
+        class User {
+          @NonNull private _name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('set name(name: string)');
+      expect(output).toContain('if (name == null)');
+    });
+
+    it('keeps user-written accessors', () => {
+      const input = `
+        @Getter({ native: true })
+        @Setter({ native: true })
+        class User {
+          private _name: string;
+
+          get name(): string {
+            return this._name.toUpperCase();
+          }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output.match(/get name\(\)/g)?.length).toBe(1);
+      expect(output).toContain('toUpperCase()');
+      expect(output).toContain('set name(name: string)');
+    });
+  });
+
+  describe('parameter properties', () => {
+    it('treats constructor parameter properties as fields, in member order', () => {
+      const input = `
+        @ToString
+        @Getter
+        class User {
+          createdAt: number = 0;
+
+          constructor(private readonly id: number, public name: string, label: string) {}
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(private readonly id: number, public name: string, label: string) { }');
+      expect(output).toContain('return `User(createdAt=${this.createdAt}, id=${this.id}, name=${this.name})`;');
+      expect(output).toContain('getId(): number');
+      expect(output).toContain('getName(): string');
+      expect(output).not.toContain('getLabel');
+    });
+
+    it('passes the constructor parameters from withX()', () => {
+      const input = `
+        @With
+        class Point {
+          tag: string = '';
+
+          constructor(readonly x: number, readonly y: number) {}
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return new Point(x, this.y);');
+      expect(output).toContain('return new Point(this.x, y);');
+      expect(output).not.toContain('withTag');
+    });
+
+    it('keeps a record constructor made of parameter properties and freezes it', () => {
+      const input = `
+        @Record
+        class Point {
+          constructor(public x: number, private y: number) {}
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toMatch(/constructor\(public readonly x: number, private readonly y: number\) \{\s*Object\.freeze\(this\);\s*\}/);
+      expect(output).toContain('return `Point(x=${this.x}, y=${this.y})`;');
+    });
+  });
+
+  describe('user-written constructors', () => {
+    it('keeps the constructor of a class that would otherwise get one', () => {
+      const input = `
+        @Data
+        class User {
+          id: number;
+
+          constructor() {
+            this.id = 0;
+          }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor() {');
+      expect(output).toContain('this.id = 0;');
+      expect(output).not.toContain('constructor(id');
+    });
+  });
+
+  describe('@Builder', () => {
+    it('generates static builder method', () => {
+      const input = `
+        @Builder
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('static builder()');
+      expect(output).toContain('UserBuilder');
+    });
+
+    it('emits the companion builder class', () => {
+      const input = `
+        @Builder
+        export class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('export class UserBuilder');
+      expect(output).toContain('private _id?: number');
+      expect(output).toContain('id(id: number): UserBuilder');
+      expect(output).toContain('this._id = id');
+      expect(output).toContain('build(): User');
+      expect(output).toContain('new User(this._id, this._name)');
+    });
+
+    it('carries class type parameters over to the builder', () => {
+      const input = `
+        @Builder
+        class Box<T> {
+          value: T;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('static builder<T>(): BoxBuilder<T>');
+      expect(output).toContain('class BoxBuilder<T>');
+      expect(output).toContain('build(): Box<T>');
+    });
+  });
+
+  describe('@NoArgsConstructor', () => {
+    it('generates empty constructor', () => {
+      const input = `
+        @NoArgsConstructor
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor()');
+      expect(output).not.toContain('constructor(id');
+    });
+  });
+
+  describe('@AllArgsConstructor', () => {
+    it('generates constructor with all fields', () => {
+      const input = `
+        @AllArgsConstructor
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(id: number, name: string)');
+    });
+
+    it('keeps field order and lets optional fields ahead of required ones take undefined', () => {
+      const input = `
+        @AllArgsConstructor
+        class User {
+          nickname?: string;
+          active: boolean = true;
+          id: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain(
+        'constructor(nickname: string | undefined, active: boolean | undefined, id: number)'
+      );
+      expect(output).toContain('this.nickname = nickname;');
+      expect(output).toMatch(/if \(active !== undefined\) \{\s*this\.active = active;/);
+    });
+
+    it('checks @NonNull initialized fields after their default applies', () => {
+      const input = `
+        @AllArgsConstructor
+        class User {
+          @NonNull role: string = 'user';
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('if (this.role == null)');
+      expect(output).not.toContain('if (role == null)');
+    });
+
+    it('keeps withX() and build() in constructor order', () => {
+      const input = `
+        @Builder
+        @With
+        @AllArgsConstructor
+        class User {
+          active = true;
+          id: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return new User(active, this.id);');
+      expect(output).toContain('return new User(this._active, this._id);');
+    });
+
+    it('makes a base parameter followed by required ones accept undefined', () => {
+      const input = `
+        @AllArgsConstructor
+        class Base {
+          label = 'base';
+        }
+
+        @AllArgsConstructor
+        class Derived extends Base {
+          id: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(label: string | undefined, id: number)');
+    });
+  });
+
+  describe('@Order', () => {
+    it('orders constructor parameters, withX() and toString() by position', () => {
+      const input = `
+        @Data
+        @With
+        class Range {
+          @Order(1) end: number;
+          @Order(2) label?: string;
+          @Order(0) start: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(start: number, end: number, label?: string)');
+      expect(output).toContain('return new Range(this.start, end, this.label);');
+      expect(output).toContain('Range(start=${this.start}, end=${this.end}, label=${this.label})');
+      expect(output).not.toContain('@Order');
+    });
+
+    it('keeps pinned optional fields in place', () => {
+      const input = `
+        @AllArgsConstructor
+        class Range {
+          @Order(2) end: number;
+          @Order(0) label?: string;
+          @Order(1) step: number = 1;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(label: string | undefined, step: number | undefined, end: number)');
+    });
+  });
+
+  describe('object-style constructors', () => {
+    it('takes a props object with optional members for optional and initialized fields', () => {
+      const input = `
+        @AllArgsConstructor({ style: 'object' })
+        class User {
+          id: number;
+          name?: string;
+          active: boolean = true;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(props: {');
+      expect(output).toMatch(/id: number;\s*name\?: string;\s*active\?: boolean;/);
+      expect(output).toContain('this.id = props.id;');
+      expect(output).toContain('this.name = props.name;');
+      expect(output).toMatch(/if \(props\.active !== undefined\) \{\s*this\.active = props\.active;/);
+    });
+
+    it('validates @NonNull members of the props object', () => {
+      const input = `
+        @AllArgsConstructor({ style: 'object' })
+        class User {
+          @NonNull name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('if (props.name == null)');
+      expect(output).toContain('name cannot be null or undefined');
+    });
+
+    it('defaults the props object when every member is optional', () => {
+      const input = `
+        @RequiredArgsConstructor({ style: 'object' })
+        class Settings {
+          theme = 'dark';
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(props: {');
+      expect(output).toContain('} = {})');
+    });
+
+    it('passes an object from withX() and build()', () => {
+      const input = `
+        @Builder
+        @With
+        @Data({ style: 'object' })
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return new User({ id: this.id, name });');
+      expect(output).toContain('return new User({ id: this._id, name: this._name });');
+    });
+
+    it('passes the props object to an object-style base constructor', () => {
+      const input = `
+        @Record({ style: 'object' })
+        class Entity {
+          id: number;
+        }
+
+        @AllArgsConstructor({ style: 'object' })
+        class User extends Entity {
+          name: string;
+        }
+
+        @AllArgsConstructor
+        class Admin extends Entity {
+          level: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toMatch(/id: number;\s*name: string;/);
+      expect(output).toContain('super(props);');
+      expect(output).toContain('constructor(id: number, level: number)');
+      expect(output).toContain('super({ id });');
+    });
+  });
+
+  describe('static constructors', () => {
+    it('makes the constructor private and adds a static factory', () => {
+      const input = `
+        @AllArgsConstructor({ staticName: 'of' })
+        class User {
+          id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('private constructor(id: number, name: string)');
+      expect(output).toMatch(/static of\(id: number, name: string\): User \{\s*return new User\(id, name\);/);
+    });
+
+    it('keeps type parameters and object-style parameters', () => {
+      const input = `
+        @Record({ staticName: 'of', style: 'object' })
+        class Box<T> {
+          value: T;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toMatch(/static of<T>\(props: \{\s*value: T;\s*\}\): Box<T> \{\s*return new Box\(props\);/);
+    });
+
+    it('builds instances through the static factory', () => {
+      const input = `
+        @Builder
+        @NoArgsConstructor({ staticName: 'empty' })
+        @AllArgsConstructor({ staticName: 'of' })
+        class User {
+          id: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return User.of(this._id);');
+    });
+
+    it('leaves a user-written method of the same name alone', () => {
+      const input = `
+        @AllArgsConstructor({ staticName: 'of' })
+        class User {
+          id: number;
+          static of(id: number): User {
+            return new User(id);
+          }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output.match(/static of/g)).toHaveLength(1);
+    });
+  });
+
+  describe('@RequiredArgsConstructor', () => {
+    it('generates constructor with required fields only', () => {
+      const input = `
+        @RequiredArgsConstructor
+        class User {
+          id: number;
+          name: string;
+          active: boolean = true;
+        }
+      `;
+
+      const output = transform(input);
+
+      // Should have id and name but not active (has initializer)
+      expect(output).toContain('constructor(id: number, name: string)');
+      expect(output).not.toContain('active: boolean)');
+    });
+  });
+
+  describe('derived classes', () => {
+    it('calls the superclass methods with callSuper', () => {
+      const input = `
+        @Data
+        class Employee {
+          name: string;
+        }
+
+        @ToString({ callSuper: true })
+        @Equals({ callSuper: true })
+        class Manager extends Employee {
+          team: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return `Manager(super=${super.toString()}, team=${this.team})`;');
+      expect(output).toContain('if (!other.canEqual(this))');
+      expect(output).toContain('if (!super.equals(other))');
+      expect(output).toContain('return Manager._hash([super.hashCode(), this.team]);');
+      expect(output).toMatch(/protected canEqual\(other: unknown\): boolean \{\s*return other instanceof Manager;/);
+    });
+
+    it('forwards the fields of a base @AllArgsConstructor through super()', () => {
+      const input = `
+        @AllArgsConstructor
+        class Entity {
+          id: number;
+        }
+
+        @AllArgsConstructor
+        class User extends Entity {
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(id: number, name: string)');
+      expect(output).toMatch(/constructor\(id: number, name: string\) \{\s*super\(id\);\s*this\.name = name;/);
+    });
+
+    it('forwards the parameters of a hand-written base constructor', () => {
+      const input = `
+        class Entity {
+          constructor(id: number, tag?: string) {}
+        }
+
+        @AllArgsConstructor
+        class User extends Entity {
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(id: number, tag: string | undefined, name: string)');
+      expect(output).toContain('super(id, tag);');
+    });
+
+    it('prepends inherited parameters across several levels', () => {
+      const input = `
+        @AllArgsConstructor
+        class Entity {
+          id: number;
+        }
+
+        @RequiredArgsConstructor
+        class Person extends Entity {
+          name: string;
+        }
+
+        @Builder
+        @With
+        @AllArgsConstructor
+        class Employee extends Person {
+          salary: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('constructor(id: number, name: string, salary: number)');
+      expect(output).toContain('super(id, name);');
+      expect(output).toContain('return new Employee(this.id, this.name, salary);');
+      expect(output).toContain('return new Employee(this._id, this._name, this._salary);');
+    });
+
+    it('calls super() without arguments from a no-args constructor', () => {
+      const input = `
+        class Entity {
+          constructor(id?: number) {}
+        }
+
+        @NoArgsConstructor
+        class User extends Entity {
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toMatch(/constructor\(\) \{\s*super\(\);\s*\}/);
     });
   });
 
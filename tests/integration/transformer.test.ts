@@ -122,6 +122,29 @@ describe('transformer integration', () => {
       const toStringCount = (output.match(/toString\(\)/g) || []).length;
       expect(toStringCount).toBe(1);
     });
+
+    it('runs a compact constructor after the assignments and before freezing', () => {
+      const input = `
+        @Record
+        class Range {
+          min: number;
+          max: number;
+
+          constructor() {
+            if (this.min > this.max) {
+              throw new Error('min > max');
+            }
+          }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toMatch(
+        /constructor\(min: number, max: number\) \{\s*this\.min = min;\s*this\.max = max;\s*if \(this\.min > this\.max\) \{[\s\S]*?\}\s*Object\.freeze\(this\);/
+      );
+      expect(output.match(/constructor\(/g)).toHaveLength(1);
+    });
   });
 
   describe('@Value', () => {
@@ -169,6 +192,86 @@ describe('transformer integration', () => {
       expect(output).toContain('hashCode()');
       expect(output).toContain('number');
     });
+
+    it('compares fields that are not primitives with _deepEquals()', () => {
+      const input = `
+        @Equals
+        class Order {
+          id: number;
+          items: string[];
+          created = new Date();
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('private static _deepEquals(a: any, b: any): boolean');
+      expect(output).toContain('if (comparing.some(pair => pair[0] === a && pair[1] === b))');
+      expect(output).toContain('return this.id === other.id && Order._deepEquals(this.items, other.items) && Order._deepEquals(this.created, other.created);');
+    });
+
+    it('leaves _deepEquals() out when every field is primitive', () => {
+      const input = `
+        @Equals
+        class Point {
+          x: number;
+          label: 'a' | 'b' | undefined;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).not.toContain('deepEquals');
+    });
+
+    it('leaves out fields marked @Equals.Exclude', () => {
+      const input = `
+        @Equals
+        class Entity {
+          id: number;
+          @Equals.Exclude loadedAt: number;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return this.id === other.id;');
+      expect(output).toContain('return Entity._hash([this.id]);');
+      expect(output).not.toContain('Equals.Exclude');
+    });
+
+    it('compares only fields marked @Equals.Include with onlyExplicitlyIncluded', () => {
+      const input = `
+        @Equals({ onlyExplicitlyIncluded: true })
+        class Entity {
+          @Equals.Include id: number;
+          name: string;
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain('return this.id === other.id;');
+      expect(output).toContain('return Entity._hash([this.id]);');
+    });
+
+    it('renames helpers whose name a member of the class already uses', () => {
+      const input = `
+        @Equals
+        class Entity {
+          id: number;
+          tags: string[];
+          _hash(): string { return 'mine'; }
+        }
+      `;
+
+      const output = transform(input);
+
+      expect(output).toContain("_hash(): string { return 'mine'; }");
+      expect(output).toContain('return Entity._hash$([this.id, this.tags]);');
+      expect(output).toContain('private static _hash$(value: any): number');
+      expect(output).toContain('return Entity._hash$(value.toString());');
+    });
   });
 
   describe('@With', () => {
@@ -13,6 +13,7 @@ describe('constructor-generator', () => {
       className: 'TestClass',
       properties,
       decorators: ['Record'],
+      decoratorOptions: {},
       generateConstructor: true,
       freezeInstance: false,
       makeReadonly: true,
@@ -52,7 +53,9 @@ describe('constructor-generator', () => {
         isOptional: false,
         isReadonly: false,
         hasInitializer: false,
-        modifiers: []
+        modifiers: [],
+        decorators: [],
+        decoratorOptions: {}
       },
       {
         name: 'name',
@@ -60,7 +63,9 @@ describe('constructor-generator', () => {
         isOptional: false,
         isReadonly: false,
         hasInitializer: false,
-        modifiers: []
+        modifiers: [],
+        decorators: [],
+        decoratorOptions: {}
       }
     ];
 
@@ -84,7 +89,9 @@ describe('constructor-generator', () => {
         isOptional: false,
         isReadonly: false,
         hasInitializer: false,
-        modifiers: []
+        modifiers: [],
+        decorators: [],
+        decoratorOptions: {}
       }
     ];
 
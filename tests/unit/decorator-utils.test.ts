@@ -7,7 +7,8 @@ import {
   getKnownDecorators,
   getClassProperties,
   hasConstructor,
-  hasMethod
+  hasMethod,
+  parseDecoratorOptions
 } from '../../src/utils/decorator-utils';
 
 describe('decorator-utils', () => {
@@ -203,6 +204,21 @@ describe('decorator-utils', () => {
       expect(properties.length).toBe(1);
       expect(properties[0].name).toBe('id');
     });
+
+    it('includes constructor parameter properties with their modifiers', () => {
+      const cls = parseClass(`
+        class User {
+          constructor(private readonly id: number, label: string, public nickname?: string) {}
+          active = true;
+        }
+      `);
+
+      const properties = getClassProperties(cls);
+      expect(properties.map(p => p.name)).toEqual(['id', 'nickname', 'active']);
+      expect(properties[0]).toMatchObject({ isPrivate: true, isReadonly: true, isParameterProperty: true });
+      expect(properties[1]).toMatchObject({ isPrivate: false, isOptional: true, isParameterProperty: true });
+      expect(properties[2].isParameterProperty).toBe(false);
+    });
   });
 
   describe('hasConstructor', () => {
@@ -248,4 +264,66 @@ describe('decorator-utils', () => {
       expect(hasMethod(cls, 'toString')).toBe(false);
     });
   });
+
+  describe('parseDecoratorOptions', () => {
+    function firstDecorator(code: string): ts.Decorator {
+      return ts.getDecorators(parseClass(code))![0];
+    }
+
+    it('returns empty options for decorators without call syntax', () => {
+      const result = parseDecoratorOptions(firstDecorator(`
+        @ToString
+        class User {}
+      `));
+
+      expect(result.options).toEqual({});
+      expect(result.errors).toEqual([]);
+    });
+
+    it('evaluates literal option values', () => {
+      const result = parseDecoratorOptions(firstDecorator(`
+        @ToString({ exclude: ['password', "token"], callSuper: true, depth: -1, label: null, nested: { a: \`x\` } })
+        class User {}
+      `));
+
+      expect(result.errors).toEqual([]);
+      expect(result.options).toEqual({
+        exclude: ['password', 'token'],
+        callSuper: true,
+        depth: -1,
+        label: null,
+        nested: { a: 'x' }
+      });
+    });
+
+    it('unwraps as const assertions', () => {
+      const result = parseDecoratorOptions(firstDecorator(`
+        @ToString({ exclude: ['password'] as const })
+        class User {}
+      `));
+
+      expect(result.options).toEqual({ exclude: ['password'] });
+    });
+
+    it('reports non-literal values', () => {
+      const result = parseDecoratorOptions(firstDecorator(`
+        @ToString({ exclude: EXCLUDED, callSuper: true })
+        class User {}
+      `));
+
+      expect(result.options).toEqual({ callSuper: true });
+      expect(result.errors.length).toBe(1);
+      expect(result.errors[0].message).toContain('literals');
+    });
+
+    it('reports arguments that are not object literals', () => {
+      const result = parseDecoratorOptions(firstDecorator(`
+        @ToString(options)
+        class User {}
+      `));
+
+      expect(result.options).toEqual({});
+      expect(result.errors[0].message).toContain('object literal');
+    });
+  });
 });
@@ -4,6 +4,7 @@ import {
   generateToString,
   generateEquals,
   generateHashCode,
+  generateHashMembers,
   generateWithMethods
 } from '../../src/generators/method-generator';
 import { TransformationPlan } from '../../src/transformer/context';
@@ -17,10 +18,11 @@ describe('method-generator', () => {
     properties: PropertyInfo[]
   ): TransformationPlan {
     return {
-      classDeclaration: {} as ts.ClassDeclaration,
+      classDeclaration: factory.createClassDeclaration(undefined, className, undefined, undefined, []),
       className,
       properties,
       decorators: [],
+      decoratorOptions: {},
       generateConstructor: false,
       freezeInstance: false,
       makeReadonly: false,
@@ -63,7 +65,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
@@ -84,7 +88,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         },
         {
           name: 'name',
@@ -92,7 +98,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
@@ -116,7 +124,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
@@ -142,7 +152,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         },
         {
           name: 'name',
@@ -150,7 +162,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
@@ -173,6 +187,7 @@ describe('method-generator', () => {
       expect(output).toContain('hashCode()');
       expect(output).toContain('number');
       expect(output).toContain('return 0');
+      expect(generateHashMembers(factory, plan)).toEqual([]);
     });
 
     it('generates hashCode with field-based computation', () => {
@@ -183,17 +198,24 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
       const plan = createMockPlan('User', properties);
       const method = generateHashCode(factory, plan);
       const output = printNode(method);
+      const helpers = generateHashMembers(factory, plan).map(printNode);
 
       expect(output).toContain('hashCode()');
       expect(output).toContain('number');
-      expect(output).toContain('this.id');
+      expect(output).toContain('return User._hash([this.id]);');
+      expect(output).not.toContain('function');
+      expect(helpers).toHaveLength(1);
+      expect(helpers[0]).toContain('private static _hash(value: any): number');
+      expect(helpers[0]).toContain('return User._hash(value.toString());');
     });
   });
 
@@ -206,7 +228,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         },
         {
           name: 'name',
@@ -214,7 +238,9 @@ describe('method-generator', () => {
           isOptional: false,
           isReadonly: false,
           hasInitializer: false,
-          modifiers: []
+          modifiers: [],
+          decorators: [],
+          decoratorOptions: {}
         }
       ];
 
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as ts from 'typescript';
+import { parseDecoratorOptions } from '../../src/utils/decorator-utils';
+
+// TypeScript 4.8, the oldest supported version, has no `satisfies`
+vi.mock('typescript', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('typescript')>();
+  return { ...actual, default: actual, isSatisfiesExpression: undefined };
+});
+
+describe('TypeScript 4.8 compatibility', () => {
+  it('runs without ts.isSatisfiesExpression', () => {
+    expect((ts as { isSatisfiesExpression?: unknown }).isSatisfiesExpression).toBeUndefined();
+  });
+
+  it('parses decorator options', () => {
+    const sourceFile = ts.createSourceFile(
+      'test.ts',
+      `
+        @Getter({ access: 'none', prefix: ['_'] as const })
+        class User {}
+      `,
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const classDecl = sourceFile.statements.find(ts.isClassDeclaration)!;
+    const result = parseDecoratorOptions(ts.getDecorators(classDecl)![0]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.options).toEqual({ access: 'none', prefix: ['_'] });
+  });
+});